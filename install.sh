@@ -163,10 +163,20 @@ if ls "$HOME/.clawdbot/credentials/elyments"* &>/dev/null; then
     echo "Elyments already logged in, skipping..."
 else
     echo ""
-    $PKG_MGR clawdbot channels login --channel elyments </dev/tty || {
-        echo "Error: Elyments login failed."
-        exit 1
-    }
+    if [ -n "${ELYMENTS_PHONE_NUMBER:-}" ]; then
+        # Headless: drop the OTP into ~/.clawdbot/credentials/elyments/otp (or set ELYMENTS_OTP_PORT)
+        # Keep the login's exit code (2 config, 3 wrong OTP, 4 rate-limited, 5 network, 6 timeout, 7 blocked)
+        ELYMENTS_HEADLESS_LOGIN=1 $PKG_MGR clawdbot channels login --channel elyments || {
+            rc=$?
+            echo "Error: Elyments login failed (exit code $rc)."
+            exit $rc
+        }
+    else
+        $PKG_MGR clawdbot channels login --channel elyments </dev/tty || {
+            echo "Error: Elyments login failed."
+            exit 1
+        }
+    fi
 fi
 
 echo ""
@@ -7,10 +7,13 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as readline from "node:readline";
+// Shared with the gateway so token refreshes take the same credentials lock
+// (and encrypted credential files can be read)
+import { getValidSession } from "../src/elyments/auth.js";
+import type { ElymentsSession } from "../src/types.js";
 
 const HOME = process.env.HOME || "";
 const CONFIG_FILE = path.join(HOME, ".clawdbot/clawdbot.json");
-const SESSION_FILE = path.join(HOME, ".clawdbot/credentials/elyments/session.json");
 const ELYMENTS_CHAT_API = "https://chatapi.elyments.com/api/inboxDetails/v2";
 
 interface RecentChat {
@@ -20,19 +23,14 @@ interface RecentChat {
   lastMessage?: string;
 }
 
-interface ElymentsSession {
-  accessToken: string;
-  userId: string;
-}
-
-function loadSession(): ElymentsSession | null {
-  try {
-    if (!fs.existsSync(SESSION_FILE)) return null;
-    const data = JSON.parse(fs.readFileSync(SESSION_FILE, "utf-8"));
-    return data.accessToken ? data : null;
-  } catch {
+// Load the session, refreshing expiring tokens the same way the gateway does
+async function loadSession(): Promise<ElymentsSession | null> {
+  const result = await getValidSession();
+  if (!result.success || !result.session?.accessToken) {
+    if (result.error) console.error(`Elyments session: ${result.error}`);
     return null;
   }
+  return result.session;
 }
 
 function loadConfig(): Record<string, unknown> {
@@ -122,7 +120,7 @@ async function prompt(question: string): Promise<string> {
 async function main() {
   console.log("\n=== Elyments Allowlist Configuration ===\n");
 
-  const session = loadSession();
+  const session = await loadSession();
   if (!session) {
     console.error("Error: Not logged in to Elyments. Run the login first.");
     process.exit(1);
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { elymentsMessageActions } from "./actions.js";
+import * as send from "./elyments/send.js";
+import type { CoreConfig } from "./types.js";
+
+// The agent tool helpers live in the host app; these mirror their contract
+vi.mock("../../../src/agents/tools/common.js", () => ({
+  jsonResult: (payload: unknown) => ({ details: payload }),
+  readStringParam: (
+    params: Record<string, unknown>,
+    key: string,
+    opts: { required?: boolean; allowEmpty?: boolean } = {},
+  ) => {
+    const value = typeof params[key] === "string" ? (params[key] as string).trim() : undefined;
+    if (!value && !opts.allowEmpty) {
+      if (opts.required) throw new Error(`${key} required`);
+      return undefined;
+    }
+    return value;
+  },
+  readStringArrayParam: (params: Record<string, unknown>, key: string) => {
+    const value = params[key];
+    if (Array.isArray(value)) return value.map(String);
+    return typeof value === "string" ? [value] : undefined;
+  },
+}));
+
+vi.mock("./elyments/accounts.js", () => ({
+  getElymentsSenderName: () => "Bot",
+  resolveElymentsAccount: ({ cfg }: { cfg: CoreConfig }) => ({
+    enabled: true,
+    config: cfg.channels?.elyments ?? {},
+  }),
+}));
+
+vi.mock("./elyments/send.js", () => ({
+  createGroupElyments: vi.fn(async (name: string, members: string[]) => ({
+    jid: "g1@muclight.localhost",
+    name,
+    members,
+  })),
+  renameGroupElyments: vi.fn(async () => {}),
+  sendMessageElyments: vi.fn(async (to: string) => ({ messageId: "m1", to })),
+  sendReactionElyments: vi.fn(async () => {}),
+  updateGroupMembersElyments: vi.fn(async () => {}),
+}));
+
+const cfg = {
+  channels: { elyments: { actions: { reactions: true, groups: true } } },
+} as CoreConfig;
+
+// Enough params for any action to get past validation
+const params = {
+  to: "alice@localhost",
+  message: "hi",
+  messageId: "m0",
+  emoji: "👍",
+  name: "Team",
+  members: ["bob@localhost"],
+};
+
+describe("elymentsMessageActions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("handles every action it lists", async () => {
+    const actions = elymentsMessageActions.listActions?.({ cfg } as never) ?? [];
+    expect(actions).toContain("send");
+    for (const action of actions) {
+      await expect(
+        elymentsMessageActions.handleAction?.({ action, params, cfg } as never),
+      ).resolves.toBeDefined();
+    }
+  });
+
+  it("sends through the shared client", async () => {
+    const result = await elymentsMessageActions.handleAction?.({
+      action: "send",
+      params: { to: "alice@localhost", message: "hello", replyTo: "m9" },
+      cfg,
+      accountId: "work",
+    } as never);
+    expect(send.sendMessageElyments).toHaveBeenCalledWith("alice@localhost", "hello", {
+      senderName: "Bot",
+      mediaUrl: undefined,
+      replyTo: { id: "m9" },
+      accountId: "work",
+    });
+    expect(result).toEqual({ details: { ok: true, messageId: "m1", to: "alice@localhost" } });
+  });
+
+  it("rejects actions it doesn't list", async () => {
+    await expect(
+      elymentsMessageActions.handleAction?.({ action: "poll", params, cfg } as never),
+    ).rejects.toThrow(/not supported/);
+  });
+});
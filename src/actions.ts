@@ -0,0 +1,136 @@
+import type {
+  ChannelMessageActionAdapter,
+  ChannelMessageActionName,
+} from "../../../src/channels/plugins/types.js";
+import {
+  jsonResult,
+  readStringArrayParam,
+  readStringParam,
+} from "../../../src/agents/tools/common.js";
+import { getElymentsSenderName, resolveElymentsAccount } from "./elyments/accounts.js";
+import {
+  createGroupElyments,
+  renameGroupElyments,
+  sendMessageElyments,
+  sendReactionElyments,
+  updateGroupMembersElyments,
+} from "./elyments/send.js";
+import type { CoreConfig } from "./types.js";
+
+// Reactions are on unless channels.elyments.actions.reactions is false
+export function elymentsReactionsEnabled(cfg: CoreConfig, accountId?: string | null): boolean {
+  const account = resolveElymentsAccount({ cfg, accountId: accountId ?? undefined });
+  return account.enabled && account.config.actions?.reactions !== false;
+}
+
+// Group management is off unless channels.elyments.actions.groups is true
+export function elymentsGroupActionsEnabled(cfg: CoreConfig, accountId?: string | null): boolean {
+  const account = resolveElymentsAccount({ cfg, accountId: accountId ?? undefined });
+  return account.enabled && account.config.actions?.groups === true;
+}
+
+const GROUP_ACTIONS: ChannelMessageActionName[] = [
+  "channel-create",
+  "addParticipant",
+  "removeParticipant",
+  "renameGroup",
+];
+
+// Members as an array or a comma-separated list
+function readMembersParam(params: Record<string, unknown>): string[] {
+  const members =
+    readStringArrayParam(params, "members") ??
+    readStringArrayParam(params, "participants") ??
+    readStringArrayParam(params, "participant") ??
+    [];
+  return members
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export const elymentsMessageActions: ChannelMessageActionAdapter = {
+  listActions: ({ cfg }) => {
+    const actions = new Set<ChannelMessageActionName>(["send"]);
+    if (elymentsReactionsEnabled(cfg as CoreConfig)) {
+      actions.add("react");
+    }
+    if (elymentsGroupActionsEnabled(cfg as CoreConfig)) {
+      for (const action of GROUP_ACTIONS) actions.add(action);
+    }
+    return Array.from(actions);
+  },
+  handleAction: async ({ action, params, cfg, accountId }) => {
+    if (action === "send") {
+      const to = readStringParam(params, "to", { required: true });
+      const message = readStringParam(params, "message", { required: true, allowEmpty: true });
+      const mediaUrl = readStringParam(params, "media", { trim: false });
+      const replyToId = readStringParam(params, "replyTo");
+
+      const result = await sendMessageElyments(to, message, {
+        senderName: getElymentsSenderName(cfg as CoreConfig, accountId),
+        mediaUrl,
+        replyTo: replyToId ? { id: replyToId } : undefined,
+        accountId,
+      });
+      return jsonResult({ ok: true, ...result });
+    }
+
+    if (action === "react") {
+      if (!elymentsReactionsEnabled(cfg as CoreConfig, accountId)) {
+        throw new Error("Elyments reactions are disabled (channels.elyments.actions.reactions).");
+      }
+      const to =
+        readStringParam(params, "chatId") ??
+        readStringParam(params, "to", { required: true });
+      const messageId = readStringParam(params, "messageId", { required: true });
+      const emoji = readStringParam(params, "emoji", { allowEmpty: true }) ?? "";
+      const remove = typeof params.remove === "boolean" ? params.remove : false;
+
+      await sendReactionElyments(to, messageId, emoji, {
+        remove,
+        accountId,
+      });
+      return jsonResult({ ok: true, removed: remove || !emoji.trim() });
+    }
+
+    if (GROUP_ACTIONS.includes(action)) {
+      if (!elymentsGroupActionsEnabled(cfg as CoreConfig, accountId)) {
+        throw new Error("Elyments group actions are disabled (channels.elyments.actions.groups).");
+      }
+
+      if (action === "channel-create") {
+        const name = readStringParam(params, "name", { required: true });
+        const group = await createGroupElyments(name, readMembersParam(params), { accountId });
+        return jsonResult({
+          ok: true,
+          chatId: group.jid,
+          name: group.name,
+          members: group.members,
+        });
+      }
+
+      const group =
+        readStringParam(params, "chatId") ??
+        readStringParam(params, "to", { required: true });
+
+      if (action === "renameGroup") {
+        const name =
+          readStringParam(params, "name") ??
+          readStringParam(params, "displayName", { required: true });
+        await renameGroupElyments(group, name, { accountId });
+        return jsonResult({ ok: true, chatId: group, name });
+      }
+
+      const members = readMembersParam(params);
+      if (members.length === 0) {
+        throw new Error("members required");
+      }
+      const remove = action === "removeParticipant";
+      await updateGroupMembersElyments(group, members, { remove, accountId });
+      return jsonResult({ ok: true, chatId: group, [remove ? "removed" : "added"]: members });
+    }
+
+    throw new Error(`Action ${action} is not supported for provider elyments.`);
+  },
+};
@@ -15,9 +15,11 @@ import {
   listElymentsAccountIds,
   resolveDefaultElymentsAccountId,
   resolveElymentsAccount,
+  resolveElymentsAccountKey,
+  resolveElymentsPairingAccount,
 } from "./elyments/accounts.js";
 import {
-  elymentsCredentialsExist,
+  elymentsAccountEnv,
   loadElymentsSession,
   clearElymentsCredentials,
 } from "./elyments/credentials.js";
@@ -27,8 +29,10 @@ import {
   looksLikeElymentsTarget,
 } from "./elyments/send.js";
 import { isElymentsGroup, formatDirectJid } from "./elyments/xmpp.js";
+import { getSharedElymentsClient } from "./elyments/client.js";
 import { elymentsOnboardingAdapter } from "./onboarding.js";
 import { elymentsOutbound } from "./outbound.js";
+import { elymentsMessageActions } from "./actions.js";
 
 const meta = {
   id: "elyments",
@@ -52,6 +56,7 @@ function normalizeElymentsMessagingTarget(raw: string): string | undefined {
 
 function buildElymentsConfigUpdate(
   cfg: CoreConfig,
+  accountId: string,
   input: {
     phoneNumber?: string;
     countryCode?: string;
@@ -59,6 +64,23 @@ function buildElymentsConfigUpdate(
   },
 ): CoreConfig {
   const existing = cfg.channels?.elyments ?? {};
+  const fields = {
+    enabled: true,
+    ...(input.phoneNumber ? { phoneNumber: input.phoneNumber } : {}),
+    ...(input.countryCode ? { countryCode: input.countryCode } : {}),
+    ...(input.senderName ? { senderName: input.senderName } : {}),
+  };
+  if (accountId === DEFAULT_ACCOUNT_ID) {
+    return {
+      ...cfg,
+      channels: {
+        ...cfg.channels,
+        elyments: { ...existing, ...fields },
+      },
+    };
+  }
+  // Named accounts live under channels.elyments.accounts.<id>, keeping the key as configured
+  const accountKey = resolveElymentsAccountKey(cfg, accountId) ?? accountId;
   return {
     ...cfg,
     channels: {
@@ -66,14 +88,21 @@ function buildElymentsConfigUpdate(
       elyments: {
         ...existing,
         enabled: true,
-        ...(input.phoneNumber ? { phoneNumber: input.phoneNumber } : {}),
-        ...(input.countryCode ? { countryCode: input.countryCode } : {}),
-        ...(input.senderName ? { senderName: input.senderName } : {}),
+        accounts: {
+          ...existing.accounts,
+          [accountKey]: { ...existing.accounts?.[accountKey], ...fields },
+        },
       },
     },
   };
 }
 
+// Config path prefix for an account's own settings
+function elymentsAccountConfigPath(cfg: CoreConfig, accountId: string): string {
+  const accountKey = resolveElymentsAccountKey(cfg, accountId);
+  return accountKey ? `channels.elyments.accounts.${accountKey}` : "channels.elyments";
+}
+
 export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
   id: "elyments",
   meta,
@@ -81,14 +110,22 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
   pairing: {
     idLabel: "elymentsUserId",
     normalizeAllowEntry: (entry) => entry.replace(/^elyments:/i, ""),
-    notifyApproval: async ({ id }) => {
-      await sendMessageElyments(`user:${id}`, PAIRING_APPROVED_MESSAGE);
+    notifyApproval: async ({ cfg, id }) => {
+      const accountId = resolveElymentsPairingAccount(cfg as CoreConfig, id);
+      // Approved groups get the welcome message; the monitor moves them into config
+      if (isElymentsGroup(id)) {
+        const account = resolveElymentsAccount({ cfg: cfg as CoreConfig, accountId });
+        const welcome = account.config.groupWelcomeMessage?.trim();
+        await sendMessageElyments(id, welcome || PAIRING_APPROVED_MESSAGE, { accountId });
+        return;
+      }
+      await sendMessageElyments(`user:${id}`, PAIRING_APPROVED_MESSAGE, { accountId });
     },
   },
   capabilities: {
     chatTypes: ["direct", "group"],
     polls: false,
-    reactions: false,
+    reactions: true,
     media: true,
   },
   reload: { configPrefixes: ["channels.elyments"] },
@@ -113,7 +150,7 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
         accountId,
         clearBaseFields: ["name", "phoneNumber", "countryCode", "senderName"],
       }),
-    isConfigured: () => elymentsCredentialsExist(),
+    isConfigured: (account) => account.configured,
     describeAccount: (account) => ({
       accountId: account.accountId,
       name: account.name,
@@ -121,22 +158,25 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
       configured: account.configured,
       phoneNumber: account.phoneNumber,
     }),
-    resolveAllowFrom: ({ cfg }) =>
-      ((cfg as CoreConfig).channels?.elyments?.dm?.allowFrom ?? []).map((entry) =>
-        String(entry),
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      (resolveElymentsAccount({ cfg: cfg as CoreConfig, accountId }).allowFrom ?? []).map(
+        (entry) => String(entry),
       ),
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom.map((entry) => String(entry).trim().toLowerCase()).filter(Boolean),
   },
   security: {
-    resolveDmPolicy: ({ account }) => ({
-      policy: account.dmPolicy ?? "pairing",
-      allowFrom: account.allowFrom ?? [],
-      policyPath: "channels.elyments.dm.policy",
-      allowFromPath: "channels.elyments.dm.allowFrom",
-      approveHint: formatPairingApproveHint("elyments"),
-      normalizeEntry: (raw) => raw.replace(/^elyments:/i, "").trim().toLowerCase(),
-    }),
+    resolveDmPolicy: ({ cfg, account }) => {
+      const basePath = elymentsAccountConfigPath(cfg as CoreConfig, account.accountId);
+      return {
+        policy: account.dmPolicy ?? "pairing",
+        allowFrom: account.allowFrom ?? [],
+        policyPath: `${basePath}.dm.policy`,
+        allowFromPath: `${basePath}.dm.allowFrom`,
+        approveHint: formatPairingApproveHint("elyments"),
+        normalizeEntry: (raw) => raw.replace(/^elyments:/i, "").trim().toLowerCase(),
+      };
+    },
     collectWarnings: ({ account }) => {
       const groupPolicy = account.groupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
@@ -162,8 +202,8 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
     targetHint: "<user JID|group JID>",
   },
   directory: {
-    self: async () => {
-      const session = loadElymentsSession();
+    self: async ({ accountId }) => {
+      const session = loadElymentsSession(elymentsAccountEnv(accountId));
       if (!session) return null;
       return {
         kind: "user",
@@ -172,28 +212,38 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
         raw: { userId: session.userId },
       };
     },
-    listPeers: async ({ cfg, query, limit }) => {
-      const account = resolveElymentsAccount({ cfg: cfg as CoreConfig });
+    listPeers: async ({ cfg, accountId, query, limit }) => {
+      const account = resolveElymentsAccount({ cfg: cfg as CoreConfig, accountId });
       const q = query?.trim().toLowerCase() || "";
-      const ids = new Set<string>();
+      const peers = new Map<string, { id: string; name?: string }>();
 
       for (const entry of account.allowFrom ?? []) {
         const raw = String(entry).trim();
         if (!raw || raw === "*") continue;
-        ids.add(raw.replace(/^elyments:/i, "").toLowerCase());
+        const id = raw.replace(/^elyments:/i, "").toLowerCase();
+        if (isElymentsGroup(id)) continue;
+        const jid = id.includes("@") ? id : formatDirectJid(id);
+        peers.set(jid, { id: jid });
       }
 
-      return Array.from(ids)
-        .filter((id) => !isElymentsGroup(id))
-        .filter((id) => (q ? id.toLowerCase().includes(q) : true))
+      // Contacts the bot actually knows, from the live roster
+      for (const contact of getSharedElymentsClient(account.accountId).getRoster()) {
+        peers.set(contact.jid, { id: contact.jid, name: contact.name });
+      }
+
+      return Array.from(peers.values())
+        .filter((peer) =>
+          q ? peer.id.includes(q) || (peer.name?.toLowerCase().includes(q) ?? false) : true,
+        )
         .slice(0, limit && limit > 0 ? limit : undefined)
-        .map((id) => ({
+        .map((peer) => ({
           kind: "user",
-          id: id.includes("@") ? id : formatDirectJid(id),
+          id: peer.id,
+          ...(peer.name ? { name: peer.name } : {}),
         }));
     },
-    listGroups: async ({ cfg, query, limit }) => {
-      const account = resolveElymentsAccount({ cfg: cfg as CoreConfig });
+    listGroups: async ({ cfg, accountId, query, limit }) => {
+      const account = resolveElymentsAccount({ cfg: cfg as CoreConfig, accountId });
       const q = query?.trim().toLowerCase() || "";
       const groups = Object.keys(account.groups ?? {})
         .map((id) => id.trim())
@@ -217,14 +267,15 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
       // Elyments uses OTP auth, so we don't require credentials in config
       return null;
     },
-    applyAccountConfig: ({ cfg, input }) => {
+    applyAccountConfig: ({ cfg, accountId, input }) => {
+      const resolvedAccountId = normalizeAccountId(accountId);
       const namedConfig = applyAccountNameToChannelSection({
         cfg: cfg as CoreConfig,
         channelKey: "elyments",
-        accountId: DEFAULT_ACCOUNT_ID,
+        accountId: resolvedAccountId,
         name: input.name,
       });
-      return buildElymentsConfigUpdate(namedConfig as CoreConfig, {
+      return buildElymentsConfigUpdate(namedConfig as CoreConfig, resolvedAccountId, {
         phoneNumber: input.phoneNumber?.trim(),
         countryCode: input.countryCode?.trim(),
         senderName: input.senderName?.trim(),
@@ -232,6 +283,7 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
     },
   },
   outbound: elymentsOutbound,
+  actions: elymentsMessageActions,
   status: {
     defaultRuntime: {
       accountId: DEFAULT_ACCOUNT_ID,
@@ -240,9 +292,27 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
       lastStartAt: null,
       lastStopAt: null,
       lastError: null,
+      reconnectAttempts: 0,
+      deliveredCount: 0,
+      failedCount: 0,
+      queueDepth: 0,
+      rateLimitHits: 0,
+      reloginRequired: false,
     },
     collectStatusIssues: (accounts) =>
       accounts.flatMap((account) => {
+        if (account.reloginRequired === true) {
+          const accountFlag =
+            account.accountId === DEFAULT_ACCOUNT_ID ? "" : ` --account ${account.accountId}`;
+          return [
+            {
+              channel: "elyments",
+              accountId: account.accountId,
+              kind: "auth",
+              message: `Elyments session expired; re-login required (clawdbot channels login --channel elyments${accountFlag}).`,
+            },
+          ];
+        }
         const lastError =
           typeof account.lastError === "string" ? account.lastError.trim() : "";
         if (!lastError) return [];
@@ -276,12 +346,28 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
       lastError: runtime?.lastError ?? null,
       lastInboundAt: runtime?.lastInboundAt ?? null,
       lastOutboundAt: runtime?.lastOutboundAt ?? null,
+      deliveredCount: runtime?.deliveredCount ?? 0,
+      failedCount: runtime?.failedCount ?? 0,
+      queueDepth: runtime?.queueDepth ?? 0,
+      rateLimitHits: runtime?.rateLimitHits ?? 0,
+      lastRateLimitedAt: runtime?.lastRateLimitedAt ?? null,
+      lastTokenRefreshAt: runtime?.lastTokenRefreshAt ?? null,
+      tokenExpiresAt: runtime?.tokenExpiresAt ?? null,
+      reloginRequired: runtime?.reloginRequired ?? false,
+      lastConnectedAt: runtime?.lastConnectedAt ?? null,
+      lastDisconnectAt: runtime?.lastDisconnectAt ?? null,
+      lastDisconnectReason: runtime?.lastDisconnectReason ?? null,
+      reconnectAttempts: runtime?.reconnectAttempts ?? 0,
+      lastReconnectAt: runtime?.lastReconnectAt ?? null,
+      lastPingRttMs: runtime?.lastPingRttMs ?? null,
+      lastPongAt: runtime?.lastPongAt ?? null,
+      missedPings: runtime?.missedPings ?? 0,
     }),
   },
   gateway: {
     startAccount: async (ctx) => {
       const account = ctx.account;
-      const session = loadElymentsSession();
+      const session = loadElymentsSession(elymentsAccountEnv(account.accountId));
       const identity = session?.userId || "unknown";
       ctx.log?.info(`[${account.accountId}] starting provider (${identity})`);
 
@@ -297,17 +383,40 @@ export const elymentsPlugin: ChannelPlugin<ResolvedElymentsAccount> = {
         runtime: ctx.runtime,
         abortSignal: ctx.abortSignal,
         accountId: account.accountId,
+        statusSink: (patch) => ctx.setStatus({ accountId: account.accountId, ...patch }),
       });
     },
-    logoutAccount: async () => {
-      clearElymentsCredentials();
+    logoutAccount: async ({ accountId }) => {
+      clearElymentsCredentials(elymentsAccountEnv(accountId));
       return { cleared: true, loggedOut: true };
     },
   },
   auth: {
-    login: async ({ runtime, verbose }) => {
+    login: async ({ cfg, runtime, accountId }) => {
+      const { shouldUseHeadlessLogin, runElymentsHeadlessLogin, ElymentsLoginError } =
+        await import("./elyments/headless-login.js");
+      if (shouldUseHeadlessLogin()) {
+        const account = resolveElymentsAccount({ cfg: cfg as CoreConfig, accountId });
+        try {
+          await runElymentsHeadlessLogin({
+            countryCode: account.countryCode,
+            phoneNumber: account.phoneNumber,
+            senderName: account.config.senderName,
+            env: elymentsAccountEnv(account.accountId),
+            log: (message) => runtime.log?.(message),
+          });
+        } catch (err) {
+          if (err instanceof ElymentsLoginError) {
+            runtime.error?.(`Elyments login failed: ${err.message}`);
+            runtime.exit(err.exitCode);
+          }
+          throw err;
+        }
+        return;
+      }
+
       const { runElymentsOnboarding } = await import("./onboarding.js");
-      const result = await runElymentsOnboarding(runtime);
+      const result = await runElymentsOnboarding(runtime, accountId);
       if (!result.success) {
         throw new Error(result.message || "Login failed");
       }
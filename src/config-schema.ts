@@ -9,6 +9,9 @@ const DmPolicySchema = z
   })
   .optional();
 
+// Quoted reply mode schema
+const ReplyToModeSchema = z.enum(["always", "groups-only", "never"]).optional();
+
 // Group config schema
 const GroupConfigSchema = z
   .object({
@@ -18,6 +21,8 @@ const GroupConfigSchema = z
     users: z.array(z.string()).optional(),
     systemPrompt: z.string().optional(),
     skills: z.array(z.string()).optional(),
+    replyToMode: ReplyToModeSchema,
+    readReceipts: z.boolean().optional(),
   })
   .optional();
 
@@ -25,22 +30,128 @@ const GroupConfigSchema = z
 const ActionsSchema = z
   .object({
     reactions: z.boolean().optional(),
+    groups: z.boolean().optional(),
   })
   .optional();
 
-// Main Elyments config schema
-export const ElymentsConfigSchema = z
+// Reconnect backoff schema
+const ReconnectSchema = z
   .object({
     enabled: z.boolean().optional(),
-    name: z.string().optional(),
-    senderName: z.string().optional(),
-    phoneNumber: z.string().optional(),
-    countryCode: z.string().optional(),
-    dm: DmPolicySchema,
-    groupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
-    groups: z.record(z.string(), GroupConfigSchema).optional(),
-    actions: ActionsSchema,
+    initialDelayMs: z.number().int().nonnegative().optional(),
+    maxDelayMs: z.number().int().nonnegative().optional(),
+    factor: z.number().min(1).optional(),
+    jitter: z.number().min(0).max(1).optional(),
+    stableAfterMs: z.number().int().nonnegative().optional(),
+    maxAttempts: z.number().int().nonnegative().optional(),
+  })
+  .optional();
+
+// Ping watchdog schema
+const PingSchema = z
+  .object({
+    intervalMs: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    maxMissed: z.number().int().positive().optional(),
   })
   .optional();
 
+// Owner replies from other devices (message carbons)
+const OwnerRepliesSchema = z
+  .object({
+    record: z.boolean().optional(),
+    pauseAutoReplyMs: z.number().int().nonnegative().optional(),
+  })
+  .optional();
+
+// Missed message backfill (MAM) schema
+const BackfillSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxAgeMs: z.number().int().positive().optional(),
+    perChatLimit: z.number().int().positive().optional(),
+  })
+  .optional();
+
+// Media handling schema
+const MediaSchema = z
+  .object({
+    downloadInbound: z.boolean().optional(),
+    maxInboundBytes: z.number().int().positive().optional(),
+    maxAgeMs: z.number().int().positive().optional(),
+    maxTotalBytes: z.number().int().positive().optional(),
+  })
+  .optional();
+
+// Receipts and read markers schema
+const ReceiptsSchema = z
+  .object({
+    dm: z.boolean().optional(),
+    groups: z.boolean().optional(),
+    request: z.boolean().optional(),
+  })
+  .optional();
+
+// Outbound send queue schema
+const SendQueueSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    ttlMs: z.number().int().positive().optional(),
+    maxAttempts: z.number().int().positive().optional(),
+    maxDepth: z.number().int().positive().optional(),
+    initialDelayMs: z.number().int().nonnegative().optional(),
+    maxDelayMs: z.number().int().nonnegative().optional(),
+  })
+  .optional();
+
+// Outbound rate limit schema
+const RateLimitSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    perChatPerMinute: z.number().positive().optional(),
+    perChatBurst: z.number().int().positive().optional(),
+    globalPerMinute: z.number().positive().optional(),
+    globalBurst: z.number().int().positive().optional(),
+    chunkDelayMs: z.number().int().nonnegative().optional(),
+    typingBetweenChunks: z.boolean().optional(),
+  })
+  .optional();
+
+// Token refresh scheduler schema
+const TokenRefreshSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    leadMs: z.number().int().nonnegative().optional(),
+  })
+  .optional();
+
+// Settings shared by the top-level config and each account
+const ElymentsAccountSchema = z.object({
+  enabled: z.boolean().optional(),
+  name: z.string().optional(),
+  senderName: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  countryCode: z.string().optional(),
+  dm: DmPolicySchema,
+  groupPolicy: z.enum(["open", "allowlist", "pairing", "disabled"]).optional(),
+  groups: z.record(z.string(), GroupConfigSchema).optional(),
+  groupWelcomeMessage: z.string().optional(),
+  replyToMode: ReplyToModeSchema,
+  actions: ActionsSchema,
+  reconnect: ReconnectSchema,
+  ping: PingSchema,
+  ownerReplies: OwnerRepliesSchema,
+  backfill: BackfillSchema,
+  media: MediaSchema,
+  receipts: ReceiptsSchema,
+  sendQueue: SendQueueSchema,
+  rateLimit: RateLimitSchema,
+  tokenRefresh: TokenRefreshSchema,
+});
+
+// Main Elyments config schema
+export const ElymentsConfigSchema = ElymentsAccountSchema.extend({
+  accounts: z.record(z.string(), ElymentsAccountSchema.optional()).optional(),
+}).optional();
+
 export type ElymentsConfig = z.infer<typeof ElymentsConfigSchema>;
@@ -0,0 +1,100 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { CoreConfig } from "../types.js";
+import {
+  buildElymentsGroupApproval,
+  resolveElymentsAccount,
+  resolveElymentsAccountKey,
+} from "./accounts.js";
+
+// Account ids come from the host app; this mirrors its normalization
+vi.mock("../../../../src/routing/session-key.js", () => ({
+  DEFAULT_ACCOUNT_ID: "default",
+  normalizeAccountId: (id?: string | null) => id?.trim().toLowerCase() || "default",
+}));
+
+const GROUP = "g1@muclight.localhost";
+
+describe("resolveElymentsAccountKey", () => {
+  it("finds the configured spelling of an account id", () => {
+    const cfg = { channels: { elyments: { accounts: { Work: {} } } } } as CoreConfig;
+    expect(resolveElymentsAccountKey(cfg, "work")).toBe("Work");
+    expect(resolveElymentsAccountKey(cfg, "home")).toBeUndefined();
+  });
+});
+
+describe("buildElymentsGroupApproval", () => {
+  it("writes to the account's own key as configured", () => {
+    const cfg = {
+      channels: {
+        elyments: {
+          accounts: { Work: { phoneNumber: "9876543210", groups: { other: {} } } },
+        },
+      },
+    } as CoreConfig;
+    const next = buildElymentsGroupApproval(cfg, "work", GROUP);
+    expect(Object.keys(next.channels?.elyments?.accounts ?? {})).toEqual(["Work"]);
+    expect(next.channels?.elyments?.accounts?.Work).toEqual({
+      phoneNumber: "9876543210",
+      groups: { other: {}, [GROUP]: { requireMention: true } },
+    });
+    expect(next.channels?.elyments?.groups).toBeUndefined();
+  });
+
+  it("uses the top-level section for an account without overrides", () => {
+    const cfg = { channels: { elyments: { groups: {} } } } as CoreConfig;
+    const next = buildElymentsGroupApproval(cfg, "default", GROUP);
+    expect(next.channels?.elyments?.groups).toEqual({ [GROUP]: { requireMention: true } });
+  });
+
+  it("keeps settings already made for the group", () => {
+    const cfg = {
+      channels: { elyments: { groups: { [GROUP]: { requireMention: false } } } },
+    } as CoreConfig;
+    const next = buildElymentsGroupApproval(cfg, "default", GROUP);
+    expect(next.channels?.elyments?.groups?.[GROUP]).toEqual({ requireMention: false });
+  });
+});
+
+describe("resolveElymentsAccount", () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-accounts-"));
+    vi.stubEnv("HOME", home);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it("lets named accounts inherit group pairing but not the approved groups", () => {
+    const cfg = {
+      channels: {
+        elyments: {
+          groupPolicy: "pairing",
+          groupWelcomeMessage: "Hi all",
+          groups: { [GROUP]: { requireMention: true } },
+          accounts: { Work: {} },
+        },
+      },
+    } as CoreConfig;
+
+    expect(resolveElymentsAccount({ cfg })).toMatchObject({
+      groupPolicy: "pairing",
+      groups: { [GROUP]: { requireMention: true } },
+    });
+    const work = resolveElymentsAccount({ cfg, accountId: "work" });
+    expect(work).toMatchObject({ groupPolicy: "pairing", groups: undefined });
+    expect(work.config.groupWelcomeMessage).toBe("Hi all");
+  });
+
+  it("defaults to the group allowlist", () => {
+    const cfg = { channels: { elyments: {} } } as CoreConfig;
+    expect(resolveElymentsAccount({ cfg }).groupPolicy).toBe("allowlist");
+  });
+});
@@ -1,6 +1,17 @@
-import type { CoreConfig, ResolvedElymentsAccount, ElymentsChannelConfig } from "../types.js";
-import { DEFAULT_ACCOUNT_ID } from "../../../../src/routing/session-key.js";
-import { elymentsCredentialsExist, loadElymentsProfile } from "./credentials.js";
+import type {
+  CoreConfig,
+  ResolvedElymentsAccount,
+  ElymentsAccountConfig,
+  ElymentsChannelConfig,
+  ElymentsProfile,
+} from "../types.js";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "../../../../src/routing/session-key.js";
+import {
+  ElymentsCredentialsKeyError,
+  elymentsAccountEnv,
+  elymentsCredentialsExist,
+  loadElymentsProfile,
+} from "./credentials.js";
 
 export type { ResolvedElymentsAccount };
 
@@ -8,28 +19,88 @@ export type { ResolvedElymentsAccount };
 export function listElymentsAccountIds(cfg: CoreConfig): string[] {
   const elyments = cfg.channels?.elyments;
   if (!elyments) return [];
-
-  // For now, Elyments only supports a single account (default)
   if (elyments.enabled === false) return [];
 
-  return [DEFAULT_ACCOUNT_ID];
+  const ids = Object.keys(elyments.accounts ?? {})
+    .map((id) => normalizeAccountId(id))
+    .filter(Boolean);
+  // The top-level login keeps running next to named accounts
+  if (ids.length === 0 || hasTopLevelElymentsAccount(cfg)) ids.push(DEFAULT_ACCOUNT_ID);
+  return Array.from(new Set(ids)).sort((a, b) => a.localeCompare(b));
+}
+
+// Top-level section carries its own login (credentials on disk or a configured number)
+function hasTopLevelElymentsAccount(cfg: CoreConfig): boolean {
+  const elyments = cfg.channels?.elyments;
+  if (elyments?.phoneNumber) return true;
+  return elymentsCredentialsExist(elymentsAccountEnv(DEFAULT_ACCOUNT_ID));
 }
 
 // Resolve the default account ID
 export function resolveDefaultElymentsAccountId(cfg: CoreConfig): string {
   const ids = listElymentsAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
   return ids[0] || DEFAULT_ACCOUNT_ID;
 }
 
+// Key under channels.elyments.accounts as written in the config ("Work" for "work")
+export function resolveElymentsAccountKey(cfg: CoreConfig, accountId: string): string | undefined {
+  const accounts = cfg.channels?.elyments?.accounts;
+  if (!accounts) return undefined;
+  return Object.keys(accounts).find((id) => normalizeAccountId(id) === accountId);
+}
+
+// Account overrides for an id (keys are matched after normalization)
+function resolveAccountOverrides(
+  cfg: CoreConfig,
+  accountId: string,
+): ElymentsAccountConfig | undefined {
+  const key = resolveElymentsAccountKey(cfg, accountId);
+  return key ? cfg.channels?.elyments?.accounts?.[key] : undefined;
+}
+
+// Top-level channel settings with the account's overrides applied. Named
+// accounts inherit policies and limits, but not the top-level login's identity
+// (name, number, sender name) or its allowlists.
+function mergeElymentsAccountConfig(cfg: CoreConfig, accountId: string): ElymentsAccountConfig {
+  const { accounts: _accounts, ...base } = cfg.channels?.elyments ?? {};
+  const overrides = resolveAccountOverrides(cfg, accountId);
+  if (accountId === DEFAULT_ACCOUNT_ID) return { ...base, ...overrides };
+
+  const {
+    name: _name,
+    phoneNumber: _phoneNumber,
+    countryCode: _countryCode,
+    senderName: _senderName,
+    groups: _groups,
+    dm,
+    ...defaults
+  } = base;
+  const inheritedDm = dm ? { enabled: dm.enabled, policy: dm.policy } : undefined;
+  return { ...defaults, dm: inheritedDm, ...overrides };
+}
+
+// The profile only supplies a default sender name; a credentials key problem
+// surfaces when the session is loaded, not while resolving config
+function loadProfileForSenderName(env: NodeJS.ProcessEnv): ElymentsProfile | null {
+  try {
+    return loadElymentsProfile(env);
+  } catch (err) {
+    if (err instanceof ElymentsCredentialsKeyError) return null;
+    throw err;
+  }
+}
+
 // Resolve a specific Elyments account
 export function resolveElymentsAccount(params: {
   cfg: CoreConfig;
-  accountId?: string;
+  accountId?: string | null;
 }): ResolvedElymentsAccount {
   const { cfg, accountId } = params;
-  const resolvedAccountId = accountId?.trim() || DEFAULT_ACCOUNT_ID;
-  const elyments = cfg.channels?.elyments ?? {};
-  const profile = loadElymentsProfile();
+  const resolvedAccountId = normalizeAccountId(accountId);
+  const elyments = mergeElymentsAccountConfig(cfg, resolvedAccountId);
+  const env = elymentsAccountEnv(resolvedAccountId);
+  const profile = loadProfileForSenderName(env);
 
   const config: ElymentsChannelConfig = {
     enabled: elyments.enabled,
@@ -40,15 +111,26 @@ export function resolveElymentsAccount(params: {
     dm: elyments.dm,
     groupPolicy: elyments.groupPolicy,
     groups: elyments.groups,
+    groupWelcomeMessage: elyments.groupWelcomeMessage,
+    replyToMode: elyments.replyToMode,
     actions: elyments.actions,
+    reconnect: elyments.reconnect,
+    ping: elyments.ping,
+    ownerReplies: elyments.ownerReplies,
+    backfill: elyments.backfill,
+    media: elyments.media,
+    receipts: elyments.receipts,
+    sendQueue: elyments.sendQueue,
+    rateLimit: elyments.rateLimit,
+    tokenRefresh: elyments.tokenRefresh,
   };
 
-  const configured = elymentsCredentialsExist();
+  const configured = elymentsCredentialsExist(env);
 
   return {
     accountId: resolvedAccountId,
     name: config.name,
-    enabled: config.enabled !== false,
+    enabled: cfg.channels?.elyments?.enabled !== false && config.enabled !== false,
     configured,
     phoneNumber: config.phoneNumber,
     countryCode: config.countryCode,
@@ -61,17 +143,57 @@ export function resolveElymentsAccount(params: {
   };
 }
 
+// Add an approved group to the account's group allowlist (mention-gated by default)
+export function buildElymentsGroupApproval(
+  cfg: CoreConfig,
+  accountId: string,
+  groupJid: string,
+): CoreConfig {
+  const existing = cfg.channels?.elyments ?? {};
+  const accountKey = resolveElymentsAccountKey(cfg, accountId);
+  const section = accountKey ? (existing.accounts?.[accountKey] ?? {}) : existing;
+  const groups = {
+    ...section.groups,
+    [groupJid]: { requireMention: true, ...section.groups?.[groupJid] },
+  };
+  return {
+    ...cfg,
+    channels: {
+      ...cfg.channels,
+      elyments: accountKey
+        ? {
+            ...existing,
+            accounts: { ...existing.accounts, [accountKey]: { ...section, groups } },
+          }
+        : { ...existing, groups },
+    },
+  };
+}
+
+// Account that raised each pending DM pairing request, so the approval notice
+// goes out from the same number the user wrote to (gateway-process memory only)
+const pairingAccounts = new Map<string, string>();
+
+export function rememberElymentsPairingAccount(userId: string, accountId: string): void {
+  pairingAccounts.set(userId.toLowerCase(), accountId);
+}
+
+export function resolveElymentsPairingAccount(cfg: CoreConfig, userId: string): string {
+  return pairingAccounts.get(userId.toLowerCase()) ?? resolveDefaultElymentsAccountId(cfg);
+}
+
 // Check if Elyments channel is enabled
 export function isElymentsEnabled(cfg: CoreConfig): boolean {
   return cfg.channels?.elyments?.enabled !== false;
 }
 
 // Get sender name from config or profile
-export function getElymentsSenderName(cfg: CoreConfig): string {
-  const elyments = cfg.channels?.elyments;
-  if (elyments?.senderName) return elyments.senderName;
+export function getElymentsSenderName(cfg: CoreConfig, accountId?: string | null): string {
+  const resolvedAccountId = normalizeAccountId(accountId);
+  const elyments = mergeElymentsAccountConfig(cfg, resolvedAccountId);
+  if (elyments.senderName) return elyments.senderName;
 
-  const profile = loadElymentsProfile();
+  const profile = loadProfileForSenderName(elymentsAccountEnv(resolvedAccountId));
   if (profile?.senderName) return profile.senderName;
 
   return process.env.ELYMENTS_SENDER_NAME || "Clawdbot";
@@ -1,11 +1,19 @@
 import type { ElymentsSession, OtpRequest, OtpVerifyRequest } from "../types.js";
 import { ELYMENTS_ENDPOINTS } from "../types.js";
 import {
+  getCredentialsDir,
   getOrCreateDevice,
   loadElymentsSession,
   saveElymentsSession,
   isTokenExpiring,
+  withCredentialsLock,
 } from "./credentials.js";
+import {
+  formatCooldown,
+  getOtpCooldownMs,
+  recordOtpLockout,
+  recordOtpRequest,
+} from "./otp-throttle.js";
 
 // Elyments client info header (mimics web client)
 const ELYMENTS_CLIENT_INFO = JSON.stringify({
@@ -50,42 +58,184 @@ async function parseResponse<T>(response: Response): Promise<T | string> {
   }
 }
 
-// Request OTP for phone number (V2 API)
-export async function requestOtp(params: OtpRequest): Promise<{ success: boolean; error?: string }> {
+// Why an OTP call failed, when it can be told apart. "cooldown" is our own
+// resend throttle; the rest are parsed from the V2 error Message.
+export type OtpFailureReason =
+  | "invalid-number"
+  | "invalid-otp"
+  | "too-many-attempts"
+  | "blocked"
+  | "cooldown"
+  | "network";
+
+export type OtpResult = {
+  success: boolean;
+  error?: string;
+  reason?: OtpFailureReason;
+  // When the number may try again (cooldown, too-many-attempts, blocked)
+  retryAfterMs?: number;
+};
+
+const OTP_MESSAGE_PATTERNS: Array<[OtpFailureReason, RegExp]> = [
+  ["blocked", /\b(blocked|suspended|banned|deactivated)\b/i],
+  ["too-many-attempts", /too many|limit (exceeded|reached)|exceeded|try again later/i],
+  [
+    "invalid-number",
+    /(invalid|incorrect|wrong|valid)\s+(mobile|phone|number|country)|(mobile|phone) number (is )?(invalid|incorrect)/i,
+  ],
+  ["invalid-otp", /(invalid|incorrect|wrong|expired|mismatch).*otp|otp.*(invalid|incorrect|wrong|expired|mismatch)/i],
+];
+
+// Map a V2 error Message to a failure reason (verify failures default to a wrong code)
+export function classifyOtpMessage(
+  message: string,
+  stage: "request" | "verify",
+): OtpFailureReason | undefined {
+  for (const [reason, pattern] of OTP_MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return reason;
+  }
+  return stage === "verify" ? "invalid-otp" : undefined;
+}
+
+// "try again after 30 minutes" / "in 45 seconds" -> milliseconds
+function parseRetryAfter(message: string, header?: string | null): number | undefined {
+  const headerSeconds = Number(header);
+  if (header && Number.isFinite(headerSeconds) && headerSeconds > 0) return headerSeconds * 1000;
+  const match = message.match(/(\d+)\s*(second|sec|minute|min|hour|hr)s?\b/i);
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase();
+  const multiplier = unit.startsWith("h") ? 3_600_000 : unit.startsWith("m") ? 60_000 : 1_000;
+  return Number(match[1]) * multiplier;
+}
+
+// Failed results carry a reason and, when given, how long to back off
+function otpFailure(
+  message: string,
+  stage: "request" | "verify",
+  retryAfterHeader?: string | null,
+): OtpResult {
+  const reason = classifyOtpMessage(message, stage);
+  const retryAfterMs =
+    reason === "too-many-attempts" || reason === "blocked"
+      ? parseRetryAfter(message, retryAfterHeader)
+      : undefined;
+  return {
+    success: false,
+    error: message,
+    ...(reason ? { reason } : {}),
+    ...(retryAfterMs ? { retryAfterMs } : {}),
+  };
+}
+
+// Failed HTTP responses: 429 is throttling, 5xx is worth retrying like a network error
+async function describeHttpFailure(
+  response: Response,
+  stage: "request" | "verify",
+): Promise<OtpResult> {
+  const text = await response.text().catch(() => "");
+  let message = text;
+  try {
+    const data = JSON.parse(text) as OtpResponseV2;
+    if (data?.Message) message = data.Message;
+  } catch {
+    // Plain-text error body
+  }
+  const error = `HTTP ${response.status}: ${response.statusText} ${message}`.trim();
+  if (response.status >= 500) return { success: false, error, reason: "network" };
+
+  const failure = otpFailure(message, stage, response.headers.get("retry-after"));
+  if (response.status === 429 && !failure.reason) failure.reason = "too-many-attempts";
+  // A bare 4xx without a recognisable message says nothing about the code itself
+  if (!message.trim() && failure.reason === "invalid-otp") delete failure.reason;
+  return { ...failure, error };
+}
+
+// fetch() only rejects when the request never completed
+async function postOtpRequest(url: string, body: Record<string, string>): Promise<Response | OtpResult> {
+  try {
+    return await fetch(url, {
+      method: "POST",
+      headers: buildClientHeaders(),
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    return { success: false, error: `Network error: ${String(err)}`, reason: "network" };
+  }
+}
+
+// One-line explanation of an OTP failure for onboarding output
+export function describeOtpFailure(result: OtpResult): string {
+  const wait = result.retryAfterMs ? ` Try again in ${formatCooldown(result.retryAfterMs)}.` : "";
+  switch (result.reason) {
+    case "invalid-number":
+      return "Elyments rejected the phone number. Check the country code and number.";
+    case "invalid-otp":
+      return "The OTP is wrong or has expired.";
+    case "too-many-attempts":
+      return `Too many OTP attempts for this number.${wait || " Wait a while before retrying."}`;
+    case "blocked":
+      return `This number is blocked by Elyments.${wait || " Contact Elyments support."}`;
+    case "cooldown":
+      return `An OTP was requested recently.${wait}`;
+    case "network":
+      return `Could not reach Elyments (${result.error || "network error"}).`;
+    default:
+      return result.error || "Unknown error";
+  }
+}
+
+// Request OTP for phone number (V2 API). Resends are throttled per number with
+// an escalating cooldown that survives restarts.
+export async function requestOtp(
+  params: OtpRequest,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<OtpResult> {
   const url = `${ELYMENTS_ENDPOINTS.identity}GenerateOtp/V2`;
   const phone = normalizePhone(params.phoneNumber);
   const countryCode = params.countryCode.replace(/^\+/, "");
+  const phoneKey = `${countryCode}:${phone}`;
+
+  const cooldownMs = getOtpCooldownMs(phoneKey, Date.now(), env);
+  if (cooldownMs > 0) {
+    return {
+      success: false,
+      error: `Wait ${formatCooldown(cooldownMs)} before requesting another OTP`,
+      reason: "cooldown",
+      retryAfterMs: cooldownMs,
+    };
+  }
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: buildClientHeaders(),
-    body: JSON.stringify({
-      CountryCode: countryCode,
-      MobileNumber: phone,
-    }),
+  const response = await postOtpRequest(url, {
+    CountryCode: countryCode,
+    MobileNumber: phone,
   });
+  if (!(response instanceof Response)) return response;
 
+  let result: OtpResult;
   if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    return { success: false, error: `HTTP ${response.status}: ${response.statusText} ${text}` };
-  }
-
-  const data = await parseResponse<OtpResponseV2>(response);
-
-  // Handle plain text "success" response
-  if (typeof data === "string") {
-    const lower = data.toLowerCase();
-    if (lower === "success" || lower.includes("success")) {
-      return { success: true };
+    result = await describeHttpFailure(response, "request");
+  } else {
+    const data = await parseResponse<OtpResponseV2>(response);
+    if (typeof data === "string") {
+      // Handle plain text "success" response
+      const lower = data.toLowerCase();
+      result =
+        lower === "success" || lower.includes("success")
+          ? { success: true }
+          : otpFailure(data, "request");
+    } else {
+      result = data.IsSuccess
+        ? { success: true }
+        : otpFailure(data.Message || "OTP request failed", "request");
     }
-    return { success: false, error: data };
   }
 
-  if (!data.IsSuccess) {
-    return { success: false, error: data.Message || "OTP request failed" };
+  if (result.success) {
+    recordOtpRequest(phoneKey, Date.now(), env);
+  } else if (result.retryAfterMs) {
+    recordOtpLockout(phoneKey, Date.now() + result.retryAfterMs, env);
   }
-
-  return { success: true };
+  return result;
 }
 
 // Extract session from various response formats (like reference implementation)
@@ -120,7 +270,7 @@ function extractSession(response: unknown): ElymentsSession | null {
 export async function verifyOtp(
   params: OtpVerifyRequest,
   env?: NodeJS.ProcessEnv,
-): Promise<{ success: boolean; session?: ElymentsSession; error?: string }> {
+): Promise<OtpResult & { session?: ElymentsSession }> {
   const url = `${ELYMENTS_ENDPOINTS.identity}VerifyOtp/V2`;
   const device = getOrCreateDevice(env);
   const phone = normalizePhone(params.phoneNumber);
@@ -136,15 +286,11 @@ export async function verifyOtp(
     payload.PlatformType = params.platformType || device.platformType;
   }
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: buildClientHeaders(),
-    body: JSON.stringify(payload),
-  });
+  const response = await postOtpRequest(url, payload);
+  if (!(response instanceof Response)) return response;
 
   if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    return { success: false, error: `HTTP ${response.status}: ${response.statusText} ${text}` };
+    return await describeHttpFailure(response, "verify");
   }
 
   const data = await parseResponse<Record<string, unknown>>(response);
@@ -157,8 +303,7 @@ export async function verifyOtp(
   // Check for explicit failure
   const isSuccess = data.IsSuccess ?? data.isSuccess ?? data.success;
   if (isSuccess === false) {
-    const message = data.Message ?? data.message ?? "OTP verification failed";
-    return { success: false, error: String(message) };
+    return otpFailure(String(data.Message ?? data.message ?? "OTP verification failed"), "verify");
   }
 
   // Try to extract session
@@ -198,13 +343,49 @@ function extractRefreshedSession(response: unknown, existing: ElymentsSession):
   };
 }
 
-// Refresh session tokens (V4 API)
-export async function refreshSession(
+// reloginRequired means the refresh token itself was rejected and only a new OTP login helps
+type SessionResult = {
+  success: boolean;
+  session?: ElymentsSession;
+  error?: string;
+  reloginRequired?: boolean;
+};
+
+// In-process refreshes keyed by credentials dir, so concurrent callers share one request
+const refreshesInFlight = new Map<string, Promise<SessionResult>>();
+
+// Refresh session tokens (V4 API). A refresh token is single-use, so callers in
+// this process share one request and other processes are kept out by the dir lock.
+export async function refreshSession(env?: NodeJS.ProcessEnv): Promise<SessionResult> {
+  const key = getCredentialsDir(env);
+  const inFlight = refreshesInFlight.get(key);
+  if (inFlight) return await inFlight;
+
+  const seenRefreshToken = loadElymentsSession(env)?.refreshToken;
+  const refresh = withCredentialsLock(async () => {
+    // Another process may have refreshed while we waited for the lock
+    const currentSession = loadElymentsSession(env);
+    if (
+      currentSession?.refreshToken &&
+      seenRefreshToken &&
+      currentSession.refreshToken !== seenRefreshToken
+    ) {
+      return { success: true, session: currentSession };
+    }
+    return await requestTokenRefresh(currentSession, env);
+  }, env).finally(() => {
+    refreshesInFlight.delete(key);
+  });
+  refreshesInFlight.set(key, refresh);
+  return await refresh;
+}
+
+async function requestTokenRefresh(
+  currentSession: ElymentsSession | null,
   env?: NodeJS.ProcessEnv,
-): Promise<{ success: boolean; session?: ElymentsSession; error?: string }> {
-  const currentSession = loadElymentsSession(env);
+): Promise<SessionResult> {
   if (!currentSession?.refreshToken) {
-    return { success: false, error: "No refresh token available" };
+    return { success: false, error: "No refresh token available", reloginRequired: true };
   }
 
   const device = getOrCreateDevice(env);
@@ -227,8 +408,8 @@ export async function refreshSession(
 
   if (!response.ok) {
     // Check for logout scenario
-    if (response.status === 401) {
-      return { success: false, error: "Session expired, please login again" };
+    if (response.status === 401 || response.status === 403) {
+      return { success: false, error: "Session expired, please login again", reloginRequired: true };
     }
     const text = await response.text().catch(() => "");
     return { success: false, error: `HTTP ${response.status}: ${response.statusText} ${text}` };
@@ -259,16 +440,14 @@ export async function refreshSession(
 }
 
 // Get valid session (refresh if needed)
-export async function getValidSession(
-  env?: NodeJS.ProcessEnv,
-): Promise<{ success: boolean; session?: ElymentsSession; error?: string }> {
+export async function getValidSession(env?: NodeJS.ProcessEnv): Promise<SessionResult> {
   const session = loadElymentsSession(env);
   if (!session) {
     return { success: false, error: "Not logged in" };
   }
 
-  // Check if access token is expiring
-  if (isTokenExpiring(session.accessToken)) {
+  // Check if either token is expiring (XMPP logs in with the chat token)
+  if (isTokenExpiring(session.accessToken) || isTokenExpiring(session.chatAccessToken)) {
     return await refreshSession(env);
   }
 
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { collectMissedMessages } from "./backfill.js";
+import type { ElymentsSyncState } from "./sync-state.js";
+import type { XmppArchivePage, XmppMessageEvent } from "./xmpp.js";
+
+const NOW = 10_000_000;
+const GROUP = "g1@muclight.localhost";
+
+function message(from: string, timestamp: number, stanzaId?: string): XmppMessageEvent {
+  return {
+    id: stanzaId ?? `m-${timestamp}`,
+    stanzaId,
+    from,
+    to: "bot@localhost",
+    type: "chat",
+    body: `at ${timestamp}`,
+    timestamp,
+    backfill: true,
+  };
+}
+
+// Archive that serves `pages` in order, chained by the RSM "last" cursor
+function archive(pages: Record<string, XmppMessageEvent[][]>) {
+  return vi.fn(async (params: { archiveJid?: string; after?: string }) => {
+    const chain = pages[params.archiveJid ?? "own"] ?? [[]];
+    const index = params.after ? Number(params.after.split(":")[1]) + 1 : 0;
+    const last = index + 1 < chain.length ? `${params.archiveJid ?? "own"}:${index}` : undefined;
+    const page: XmppArchivePage = { messages: chain[index] ?? [], complete: !last, last };
+    return page;
+  });
+}
+
+describe("collectMissedMessages", () => {
+  it("does nothing without a previous sync position", async () => {
+    const queryArchive = archive({});
+    const state: ElymentsSyncState = { version: 1, chats: {} };
+    await expect(collectMissedMessages({ queryArchive, state, now: NOW })).resolves.toEqual([]);
+    expect(queryArchive).not.toHaveBeenCalled();
+  });
+
+  it("pages through the archive with the RSM cursor", async () => {
+    const queryArchive = archive({
+      own: [
+        [message("alice@localhost/a", NOW - 3_000, "s1")],
+        [message("alice@localhost/a", NOW - 2_000, "s2")],
+        [message("bob@localhost/b", NOW - 1_000, "s3")],
+      ],
+    });
+    const state: ElymentsSyncState = { version: 1, lastSeenAt: NOW - 5_000, chats: {} };
+
+    const missed = await collectMissedMessages({ queryArchive, state, now: NOW });
+    expect(missed.map((item) => item.stanzaId)).toEqual(["s1", "s2", "s3"]);
+    expect(queryArchive.mock.calls.map(([params]) => params.after)).toEqual([
+      undefined,
+      "own:0",
+      "own:1",
+    ]);
+    expect(queryArchive).toHaveBeenCalledWith(
+      expect.objectContaining({ start: NOW - 5_000, max: 50 }),
+    );
+  });
+
+  it("stops after a bounded number of pages", async () => {
+    const endless = vi.fn(async () => ({ messages: [], complete: false, last: "more" }));
+    const state: ElymentsSyncState = { version: 1, lastSeenAt: NOW - 5_000, chats: {} };
+    await collectMissedMessages({ queryArchive: endless, state, now: NOW });
+    expect(endless).toHaveBeenCalledTimes(20);
+  });
+
+  it("skips what each chat has already seen and duplicate archive ids", async () => {
+    const queryArchive = archive({
+      own: [
+        [
+          message("alice@localhost/a", NOW - 3_000, "old"),
+          message("alice@localhost/a", NOW - 2_000, "new"),
+          message("alice@localhost/a", NOW - 2_000, "new"),
+        ],
+      ],
+    });
+    const state: ElymentsSyncState = {
+      version: 1,
+      lastSeenAt: NOW - 5_000,
+      chats: { "alice@localhost": { stanzaId: "old", timestamp: NOW - 3_000 } },
+    };
+    const missed = await collectMissedMessages({ queryArchive, state, now: NOW });
+    expect(missed.map((item) => item.stanzaId)).toEqual(["new"]);
+  });
+
+  it("reads group archives from each room's cursor and survives a failing room", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const queryArchive = archive({
+      own: [[message("alice@localhost/a", NOW - 1_000, "d1")]],
+      [GROUP]: [[message(`${GROUP}/alice@localhost`, NOW - 2_000, "g1")]],
+    });
+    const failing = vi.fn(async (params: { archiveJid?: string }) => {
+      if (params.archiveJid === "gone@muclight.localhost") throw new Error("item-not-found");
+      return await queryArchive(params);
+    });
+    const state: ElymentsSyncState = {
+      version: 1,
+      lastSeenAt: NOW - 5_000,
+      chats: {
+        [GROUP]: { timestamp: NOW - 4_000 },
+        "gone@muclight.localhost": { timestamp: NOW - 4_000 },
+        "alice@localhost": { timestamp: NOW - 4_000 },
+      },
+    };
+
+    const missed = await collectMissedMessages({ queryArchive: failing, state, now: NOW });
+    expect(missed.map((item) => item.stanzaId)).toEqual(["g1", "d1"]);
+    expect(failing).toHaveBeenCalledWith(
+      expect.objectContaining({ archiveJid: GROUP, start: NOW - 4_000 }),
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the newest messages per chat within the age limit", async () => {
+    const queryArchive = archive({
+      own: [
+        [
+          message("alice@localhost/a", NOW - 9_000, "too-old"),
+          message("alice@localhost/a", NOW - 3_000, "a1"),
+          message("alice@localhost/a", NOW - 2_000, "a2"),
+          message("alice@localhost/a", NOW - 1_000, "a3"),
+        ],
+      ],
+    });
+    const state: ElymentsSyncState = { version: 1, lastSeenAt: NOW - 20_000, chats: {} };
+    const missed = await collectMissedMessages({
+      queryArchive,
+      state,
+      now: NOW,
+      config: { maxAgeMs: 5_000, perChatLimit: 2 },
+    });
+    expect(missed.map((item) => item.stanzaId)).toEqual(["a2", "a3"]);
+    expect(queryArchive).toHaveBeenCalledWith(expect.objectContaining({ start: NOW - 5_000 }));
+  });
+});
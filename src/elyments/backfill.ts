@@ -0,0 +1,87 @@
+import type { ElymentsBackfillConfig } from "../types.js";
+import type { ElymentsSyncState } from "./sync-state.js";
+import type { XmppArchivePage, XmppMessageEvent } from "./xmpp.js";
+import { bareJid, isElymentsGroup } from "./xmpp.js";
+
+const DEFAULT_MAX_AGE_MS = 6 * 60 * 60_000;
+const DEFAULT_PER_CHAT_LIMIT = 20;
+const PAGE_SIZE = 50;
+const MAX_PAGES = 20;
+
+type ArchiveQuery = (params: {
+  archiveJid?: string;
+  start?: number;
+  after?: string;
+  max?: number;
+}) => Promise<XmppArchivePage>;
+
+// Collect messages that arrived while we were offline, oldest first
+export async function collectMissedMessages(params: {
+  queryArchive: ArchiveQuery;
+  state: ElymentsSyncState;
+  config?: ElymentsBackfillConfig;
+  now?: number;
+}): Promise<XmppMessageEvent[]> {
+  const { queryArchive, state, config } = params;
+
+  // Without a previous sync position there is no known downtime to fill
+  if (!state.lastSeenAt) return [];
+
+  const now = params.now ?? Date.now();
+  const floor = now - (config?.maxAgeMs ?? DEFAULT_MAX_AGE_MS);
+  const perChatLimit = config?.perChatLimit ?? DEFAULT_PER_CHAT_LIMIT;
+
+  const seenIds = new Set<string>();
+  const byChat = new Map<string, XmppMessageEvent[]>();
+
+  const accept = (message: XmppMessageEvent) => {
+    if (message.timestamp < floor) return;
+    if (message.stanzaId) {
+      if (seenIds.has(message.stanzaId)) return;
+      seenIds.add(message.stanzaId);
+    }
+
+    const chatJid = bareJid(message.from).toLowerCase();
+    const cursor = state.chats[chatJid];
+    if (cursor) {
+      if (message.stanzaId && message.stanzaId === cursor.stanzaId) return;
+      if (message.timestamp <= cursor.timestamp) return;
+    }
+
+    const list = byChat.get(chatJid) ?? [];
+    list.push(message);
+    byChat.set(chatJid, list);
+  };
+
+  const pageThrough = async (query: { archiveJid?: string; start: number }) => {
+    let after: string | undefined;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await queryArchive({ ...query, after, max: PAGE_SIZE });
+      result.messages.forEach(accept);
+      if (result.complete || !result.last) return;
+      after = result.last;
+    }
+  };
+
+  // Direct messages live in our own archive
+  await pageThrough({ start: Math.max(state.lastSeenAt, floor) });
+
+  // Group messages live in each room's archive
+  for (const [chatJid, cursor] of Object.entries(state.chats)) {
+    if (!isElymentsGroup(chatJid)) continue;
+    try {
+      await pageThrough({ archiveJid: chatJid, start: Math.max(cursor.timestamp, floor) });
+    } catch (err) {
+      // We may have been removed from the group while offline
+      console.warn(`[elyments] backfill for ${chatJid} failed: ${String(err)}`);
+    }
+  }
+
+  // Keep the newest messages per chat, then replay in chronological order
+  const missed: XmppMessageEvent[] = [];
+  for (const list of byChat.values()) {
+    list.sort((a, b) => a.timestamp - b.timestamp);
+    missed.push(...list.slice(-perChatLimit));
+  }
+  return missed.sort((a, b) => a.timestamp - b.timestamp);
+}
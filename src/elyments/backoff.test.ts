@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeBackoffDelay,
+  DEFAULT_RECONNECT_BACKOFF,
+  resolveBackoffPolicy,
+  type BackoffPolicy,
+} from "./backoff.js";
+
+const noJitter: BackoffPolicy = { initialDelayMs: 1_000, maxDelayMs: 10_000, factor: 2, jitter: 0 };
+
+describe("computeBackoffDelay", () => {
+  it("grows exponentially from the initial delay", () => {
+    expect([1, 2, 3, 4].map((attempt) => computeBackoffDelay(noJitter, attempt))).toEqual([
+      1_000, 2_000, 4_000, 8_000,
+    ]);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    expect(computeBackoffDelay(noJitter, 5)).toBe(10_000);
+    expect(computeBackoffDelay(noJitter, 50)).toBe(10_000);
+  });
+
+  it("treats attempts below 1 as the first attempt", () => {
+    expect(computeBackoffDelay(noJitter, 0)).toBe(1_000);
+  });
+
+  it("spreads jittered delays around the base value", () => {
+    const policy = { ...noJitter, jitter: 0.5 };
+    expect(computeBackoffDelay(policy, 2, () => 0)).toBe(1_000);
+    expect(computeBackoffDelay(policy, 2, () => 0.5)).toBe(2_000);
+    expect(computeBackoffDelay(policy, 2, () => 0.999)).toBe(2_998);
+  });
+
+  it("never exceeds maxDelayMs with jitter", () => {
+    const policy = { ...noJitter, jitter: 1 };
+    expect(computeBackoffDelay(policy, 10, () => 0.999)).toBe(10_000);
+  });
+});
+
+describe("resolveBackoffPolicy", () => {
+  it("returns the base policy without overrides", () => {
+    expect(resolveBackoffPolicy(undefined, DEFAULT_RECONNECT_BACKOFF)).toEqual(
+      DEFAULT_RECONNECT_BACKOFF,
+    );
+  });
+
+  it("ignores invalid values and clamps jitter", () => {
+    expect(
+      resolveBackoffPolicy(
+        { initialDelayMs: -1, maxDelayMs: Number.NaN, factor: 0.5, jitter: 3 },
+        noJitter,
+      ),
+    ).toEqual({ initialDelayMs: 1_000, maxDelayMs: 10_000, factor: 2, jitter: 1 });
+  });
+
+  it("keeps maxDelayMs at least the initial delay", () => {
+    expect(resolveBackoffPolicy({ initialDelayMs: 20_000 }, noJitter)).toMatchObject({
+      initialDelayMs: 20_000,
+      maxDelayMs: 20_000,
+    });
+  });
+});
@@ -0,0 +1,48 @@
+// Exponential backoff policy (delays in milliseconds)
+export type BackoffPolicy = {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  // Fraction of the delay to randomize (0 = no jitter, 1 = full jitter)
+  jitter: number;
+};
+
+export const DEFAULT_RECONNECT_BACKOFF: BackoffPolicy = {
+  initialDelayMs: 2_000,
+  maxDelayMs: 5 * 60_000,
+  factor: 2,
+  jitter: 0.3,
+};
+
+// Merge partial config values over a base policy, ignoring invalid numbers
+export function resolveBackoffPolicy(
+  overrides: Partial<BackoffPolicy> | undefined,
+  base: BackoffPolicy,
+): BackoffPolicy {
+  const pick = (value: number | undefined, fallback: number, min: number): number =>
+    typeof value === "number" && Number.isFinite(value) && value >= min ? value : fallback;
+
+  const initialDelayMs = pick(overrides?.initialDelayMs, base.initialDelayMs, 0);
+  return {
+    initialDelayMs,
+    maxDelayMs: Math.max(initialDelayMs, pick(overrides?.maxDelayMs, base.maxDelayMs, 0)),
+    factor: pick(overrides?.factor, base.factor, 1),
+    jitter: Math.min(1, pick(overrides?.jitter, base.jitter, 0)),
+  };
+}
+
+// Compute the delay before the given attempt (1-based)
+export function computeBackoffDelay(
+  policy: BackoffPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.factor ** exponent);
+  if (policy.jitter <= 0) return Math.round(base);
+
+  // Spread the delay around the base value so reconnecting clients don't stampede
+  const spread = base * policy.jitter;
+  const delay = base - spread + random() * spread * 2;
+  return Math.round(Math.min(policy.maxDelayMs, Math.max(0, delay)));
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ElymentsClient } from "./client.js";
+
+vi.mock("../../../../src/routing/session-key.js", () => ({
+  DEFAULT_ACCOUNT_ID: "default",
+  normalizeAccountId: (id?: string | null) => id?.trim().toLowerCase() || "default",
+}));
+
+// Reaches the connection handlers without a live socket
+type ClientInternals = {
+  reconnectAttempts: number;
+  groupTitlesLoaded: boolean;
+  handleConnected(): void;
+  handleDisconnected(info: { reason?: string }): void;
+};
+
+describe("ElymentsClient stable connection", () => {
+  let client: ElymentsClient;
+  let internals: ClientInternals;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new ElymentsClient({}, { reconnect: { stableAfterMs: 1_000 } });
+    internals = client as unknown as ClientInternals;
+    internals.groupTitlesLoaded = true;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resets the reconnect counter and reports it once the link holds", async () => {
+    const stable = vi.fn();
+    client.on("stable", stable);
+    internals.reconnectAttempts = 3;
+    internals.handleConnected();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(client.getReconnectAttempts()).toBe(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.getReconnectAttempts()).toBe(0);
+    expect(stable).toHaveBeenCalledWith({ attempts: 3 });
+  });
+
+  it("keeps the counter when the link drops early", async () => {
+    const stable = vi.fn();
+    client.on("stable", stable);
+    client.on("disconnected", () => {});
+    internals.reconnectAttempts = 2;
+    internals.handleConnected();
+    internals.handleDisconnected({ reason: "socket closed" });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(client.getReconnectAttempts()).toBe(2);
+    expect(stable).not.toHaveBeenCalled();
+  });
+
+  it("stays quiet when there was nothing to reset", async () => {
+    const stable = vi.fn();
+    client.on("stable", stable);
+    internals.handleConnected();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(stable).not.toHaveBeenCalled();
+  });
+});
@@ -5,76 +5,507 @@ import type {
   RecipientEntry,
   ResolvedRecipient,
   ElymentsMediaInfo,
+  ElymentsReconnectConfig,
+  ElymentsPingConfig,
+  ElymentsReceiptsConfig,
+  ElymentsSendQueueConfig,
+  ElymentsRateLimitConfig,
+  ElymentsTokenRefreshConfig,
+  ElymentsRosterItem,
+  ElymentsGroupMetadata,
+  ElymentsGroupMembershipEvent,
 } from "../types.js";
 import { ELYMENTS_ENDPOINTS } from "../types.js";
+import { normalizeAccountId } from "../../../../src/routing/session-key.js";
+import { decodeElymentsBody, describeElymentsBody } from "./codec.js";
+import type { ElymentsQuote } from "./codec.js";
 import {
+  elymentsAccountEnv,
   loadElymentsSession,
   loadElymentsProfile,
   saveElymentsProfile,
   getOrCreateDevice,
 } from "./credentials.js";
 import { getValidSession, withAutoRefresh } from "./auth.js";
+import {
+  DEFAULT_RECONNECT_BACKOFF,
+  computeBackoffDelay,
+  resolveBackoffPolicy,
+} from "./backoff.js";
+import { RecentMessageIds } from "./reactions.js";
+import { ElymentsSendQueue } from "./send-queue.js";
+import { ElymentsRateLimiter, type RateLimitHit } from "./rate-limit.js";
+import { DeliveryTracker, type DeliveryStats, type TrackedDelivery } from "./receipts.js";
+import { ElymentsTokenRefresher } from "./token-refresh.js";
+import { ElymentsGroupMetadataCache } from "./group-metadata.js";
+import { classifyMembershipChanges } from "./muc-light.js";
 import {
   ElymentsXmppClient,
   type XmppMessageEvent,
+  type XmppOutgoingEvent,
+  type XmppArchivePage,
+  type XmppReactionEvent,
+  type XmppSentEvent,
+  type XmppGroupChangeEvent,
   isElymentsGroup,
+  extractUserId,
+  bareJid,
   formatDirectJid,
   formatGroupJid,
 } from "./xmpp.js";
 
 export type ElymentsClientEvents = {
   message: [XmppMessageEvent];
+  outgoing: [XmppOutgoingEvent];
+  reaction: [XmppReactionEvent];
+  sent: [XmppSentEvent];
+  delivery: [TrackedDelivery];
+  queue: [{ depth: number }];
+  sendDropped: [{ chatJid: string; reason: string; attempts: number }];
+  rateLimited: [RateLimitHit];
+  tokenRefreshed: [{ at: number; expiresAt: number | null }];
+  reloginRequired: [{ error: string }];
   online: [];
   offline: [];
   error: [Error];
   connected: [];
   disconnected: [{ reason?: string }];
+  reconnecting: [{ attempt: number; delayMs: number }];
+  reconnected: [{ attempts: number }];
+  // Connection outlived stableAfterMs, so the reconnect counter went back to 0
+  stable: [{ attempts: number }];
+  pong: [{ rttMs: number; at: number }];
+  pingTimeout: [{ missed: number }];
+  roster: [ElymentsRosterItem[]];
+  // Group changed; metadata is the updated cache entry when the group is cached
+  groupChange: [XmppGroupChangeEvent & { metadata?: ElymentsGroupMetadata }];
+  groupMembership: [ElymentsGroupMembershipEvent];
+};
+
+export type ElymentsClientOptions = {
+  reconnect?: ElymentsReconnectConfig;
+  ping?: ElymentsPingConfig;
+  receipts?: ElymentsReceiptsConfig;
+  sendQueue?: ElymentsSendQueueConfig;
+  rateLimit?: ElymentsRateLimitConfig;
+  tokenRefresh?: ElymentsTokenRefreshConfig;
 };
 
+// Connection must stay up this long before the backoff counter resets
+const DEFAULT_STABLE_AFTER_MS = 60_000;
+// Group info is fetched inline with an inbound message, so don't wait long
+const GROUP_QUERY_TIMEOUT_MS = 5_000;
+
 export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
   private xmpp: ElymentsXmppClient | null = null;
   private recipientIndex: Map<string, RecipientEntry> = new Map();
+  private roster: ElymentsRosterItem[] = [];
   private env: NodeJS.ProcessEnv;
-
-  constructor(env?: NodeJS.ProcessEnv) {
+  private options: ElymentsClientOptions;
+  private stopped = true;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectInFlight = false;
+  private stableTimer: NodeJS.Timeout | null = null;
+  private sentMessageIds = new RecentMessageIds();
+  private deliveries = new DeliveryTracker();
+  private sendQueue: ElymentsSendQueue;
+  private rateLimiter: ElymentsRateLimiter;
+  private tokenRefresher: ElymentsTokenRefresher;
+  private groups: ElymentsGroupMetadataCache;
+  private groupTitlesLoaded = false;
+  // Own user id, read from the session at connect (group events need it often)
+  private userId: string | null = null;
+
+  constructor(env?: NodeJS.ProcessEnv, options: ElymentsClientOptions = {}) {
     super();
     this.env = env || process.env;
+    this.options = options;
+    this.sendQueue = new ElymentsSendQueue({
+      isConnected: () => this.isConnected(),
+      config: options.sendQueue,
+    });
+    this.sendQueue.on("depth", (depth) => this.emit("queue", { depth }));
+    this.sendQueue.on("dropped", (info) => this.emit("sendDropped", info));
+    this.rateLimiter = new ElymentsRateLimiter(options.rateLimit, (hit) =>
+      this.emit("rateLimited", hit),
+    );
+    this.tokenRefresher = new ElymentsTokenRefresher(this.env, options.tokenRefresh);
+    this.tokenRefresher.on("refreshed", ({ session, expiresAt }) => {
+      // The live connection keeps working; the new chat token is used on the next login
+      this.xmpp?.updateSession(session);
+      this.emit("tokenRefreshed", { at: Date.now(), expiresAt });
+    });
+    this.tokenRefresher.on("reloginRequired", (info) => this.emit("reloginRequired", info));
+    this.tokenRefresher.on("error", (err) => this.emit("error", err));
+    const groupQuery = { timeoutMs: GROUP_QUERY_TIMEOUT_MS };
+    this.groups = new ElymentsGroupMetadataCache({
+      queryInfo: async (jid) => await this.requireXmpp().queryGroupInfo(jid, groupQuery),
+      queryAffiliations: async (jid) =>
+        await this.requireXmpp().queryGroupAffiliations(jid, groupQuery),
+    });
   }
 
   // Connect to Elyments (requires existing session)
   async connect(): Promise<void> {
     const result = await getValidSession(this.env);
     if (!result.success || !result.session) {
-      throw new Error(result.error || "Not logged in");
+      const error = result.error || "Not logged in";
+      if (result.reloginRequired) this.emit("reloginRequired", { error });
+      throw new Error(error);
     }
 
-    await this.connectXmpp(result.session);
+    this.userId = result.session.userId;
+    this.stopped = false;
+    this.sendQueue.open();
+    if (this.options.tokenRefresh?.enabled !== false) {
+      this.tokenRefresher.start();
+    }
+    try {
+      await this.connectXmpp(result.session);
+    } catch (err) {
+      // A failed first connect leaves nothing running: no refresh timer, no open queue
+      this.stopped = true;
+      this.sendQueue.close();
+      this.tokenRefresher.stop();
+      throw err;
+    }
   }
 
   private async connectXmpp(session: ElymentsSession): Promise<void> {
     if (this.xmpp) {
-      this.xmpp.disconnect();
+      // Detach first so the old connection can't trigger another reconnect
+      const previous = this.xmpp;
+      this.xmpp = null;
+      previous.removeAllListeners();
+      await previous.disconnect();
     }
 
     const device = getOrCreateDevice(this.env);
-    this.xmpp = new ElymentsXmppClient(session, device.resource);
+    const xmpp = new ElymentsXmppClient(session, device.resource, {
+      ping: this.options.ping,
+      sentMessageIds: this.sentMessageIds,
+      requestReceipts: this.options.receipts?.request,
+    });
+    this.xmpp = xmpp;
 
     // Forward events
-    this.xmpp.on("message", (msg) => this.emit("message", msg));
-    this.xmpp.on("online", () => this.emit("online"));
-    this.xmpp.on("offline", () => this.emit("offline"));
-    this.xmpp.on("error", (err) => this.emit("error", err));
-    this.xmpp.on("connected", () => this.emit("connected"));
-    this.xmpp.on("disconnected", (info) => this.emit("disconnected", info));
+    xmpp.on("message", (msg) => this.emit("message", msg));
+    xmpp.on("outgoing", (msg) => this.emit("outgoing", msg));
+    xmpp.on("reaction", (event) => this.emit("reaction", event));
+    xmpp.on("sent", (event) => this.handleSent(event));
+    xmpp.on("reflected", ({ xmppId, stanzaId }) => this.deliveries.addId(xmppId, stanzaId));
+    xmpp.on("receipt", ({ id, kind, timestamp }) => this.updateDelivery(id, kind, timestamp));
+    xmpp.on("messageError", ({ id, error }) => {
+      console.warn(`[elyments] message ${id} bounced: ${error.message}`);
+      this.updateDelivery(id, "failed");
+    });
+    xmpp.on("online", () => this.emit("online"));
+    xmpp.on("offline", () => this.emit("offline"));
+    xmpp.on("error", (err) => this.emit("error", err));
+    xmpp.on("connected", () => this.handleConnected());
+    xmpp.on("disconnected", (info) => this.handleDisconnected(info));
+    xmpp.on("pong", (info) => this.emit("pong", info));
+    xmpp.on("pingTimeout", (info) => this.emit("pingTimeout", info));
+    xmpp.on("roster", (items) => this.handleRoster(items));
+    xmpp.on("groupChange", (event) => this.handleGroupChange(event));
+
+    try {
+      await xmpp.connect();
+    } catch (err) {
+      if (this.xmpp === xmpp) {
+        this.xmpp = null;
+      }
+      xmpp.removeAllListeners();
+      await xmpp.disconnect();
+      throw err;
+    }
+  }
+
+  private handleSent(event: XmppSentEvent): void {
+    this.deliveries.track([event.id, event.xmppId], event.to, event.at);
+    this.emit("sent", event);
+  }
+
+  private updateDelivery(id: string, state: TrackedDelivery["state"], at = Date.now()): void {
+    const record = this.deliveries.update(id, state, at);
+    if (record) this.emit("delivery", record);
+  }
+
+  private handleConnected(): void {
+    this.emit("connected");
+    this.sendQueue.resume();
+
+    // Group titles give inbound group messages a name before any info query returns
+    if (!this.groupTitlesLoaded) {
+      this.listGroups().catch((err) => {
+        console.warn(`[elyments] group list failed: ${String(err)}`);
+      });
+    }
+
+    if (this.reconnectAttempts > 0) {
+      this.emit("reconnected", { attempts: this.reconnectAttempts });
+    }
+
+    // Only reset the backoff once the connection has proven stable
+    this.clearStableTimer();
+    const stableAfterMs = this.options.reconnect?.stableAfterMs ?? DEFAULT_STABLE_AFTER_MS;
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      const attempts = this.reconnectAttempts;
+      this.reconnectAttempts = 0;
+      if (attempts > 0) this.emit("stable", { attempts });
+    }, stableAfterMs);
+    this.stableTimer.unref?.();
+  }
+
+  private handleDisconnected(info: { reason?: string }): void {
+    this.clearStableTimer();
+    this.emit("disconnected", info);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer || this.reconnectInFlight) return;
+
+    const config = this.options.reconnect;
+    if (config?.enabled === false) return;
+
+    const maxAttempts = config?.maxAttempts ?? 0;
+    if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
+      this.emit("error", new Error(`Giving up after ${this.reconnectAttempts} reconnect attempts`));
+      return;
+    }
+
+    const attempt = ++this.reconnectAttempts;
+    const policy = resolveBackoffPolicy(config, DEFAULT_RECONNECT_BACKOFF);
+    const delayMs = computeBackoffDelay(policy, attempt);
+    this.emit("reconnecting", { attempt, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delayMs);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.stopped) return;
+    this.reconnectInFlight = true;
+
+    try {
+      // Refresh tokens before every attempt; the chat token may have expired while offline
+      const result = await getValidSession(this.env);
+      if (!result.success || !result.session) {
+        const error = result.error || "Not logged in";
+        if (result.reloginRequired) this.emit("reloginRequired", { error });
+        throw new Error(error);
+      }
+      await this.connectXmpp(result.session);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.emit("error", new Error(`Reconnect attempt ${this.reconnectAttempts} failed: ${error.message}`));
+    } finally {
+      this.reconnectInFlight = false;
+    }
+
+    if (!this.isConnected()) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private handleRoster(items: ElymentsRosterItem[]): void {
+    this.roster = items;
+
+    // Update recipient index
+    for (const item of items) {
+      const entry: RecipientEntry = {
+        jid: item.jid,
+        title: item.name || extractUserId(item.jid),
+        isGroup: false,
+        updatedAt: Date.now(),
+      };
+      this.recipientIndex.set(item.jid.toLowerCase(), entry);
+      if (item.name) {
+        this.recipientIndex.set(item.name.toLowerCase(), entry);
+      }
+    }
+
+    this.emit("roster", items);
+  }
+
+  // Contacts known from the XMPP roster
+  getRoster(): ElymentsRosterItem[] {
+    return this.roster;
+  }
+
+  private handleGroupChange(event: XmppGroupChangeEvent): void {
+    const { room, change } = event;
+    const ownUserId = this.userId;
+    const membership =
+      change.kind === "affiliations" && ownUserId
+        ? classifyMembershipChanges({
+            room,
+            changes: change.members,
+            previous: this.groups.peek(room)?.members,
+            actor: event.actor,
+            ownJid: formatDirectJid(ownUserId),
+            timestamp: event.timestamp,
+          })
+        : [];
+    for (const item of membership) this.emit("groupMembership", item);
+
+    const removedSelf = membership.some((item) => item.self && item.kind !== "join");
+    if (removedSelf) {
+      this.groups.delete(room);
+      this.emit("groupChange", event);
+      return;
+    }
+
+    if (this.groups.applyChange(room, change)) {
+      this.emit("groupChange", { ...event, metadata: this.groups.peek(room) });
+      return;
+    }
+
+    // We missed an earlier change; re-read what this notification touched
+    const refresh =
+      change.kind === "affiliations"
+        ? this.groups.refreshMembers(room)
+        : this.groups.get(room, { refresh: true });
+    refresh
+      .then((metadata) => this.emit("groupChange", { ...event, metadata }))
+      .catch((err) => {
+        console.warn(`[elyments] group refresh failed for ${room}: ${String(err)}`);
+        this.groups.delete(room);
+        this.emit("groupChange", event);
+      });
+  }
+
+  // Cached group metadata, without querying the room
+  peekGroupMetadata(jid: string): ElymentsGroupMetadata | undefined {
+    return this.groups.peek(jid);
+  }
+
+  // Group metadata for hot paths: never waits on the server, but starts a
+  // background query when the entry is missing or older than the TTL
+  getCachedGroupMetadata(jid: string): ElymentsGroupMetadata | undefined {
+    const key = bareJid(jid);
+    const cached = this.groups.cached(key);
+    void this.groups.get(key);
+    return cached;
+  }
+
+  // Group name, subject and members (cached; refreshed on change notifications)
+  async getGroupMetadata(
+    jid: string,
+    opts: { refresh?: boolean } = {},
+  ): Promise<ElymentsGroupMetadata> {
+    return await this.groups.get(bareJid(jid), opts);
+  }
 
-    await this.xmpp.connect();
+  // Create a group with us as owner; members may be JIDs, user ids or contact names
+  async createGroup(name: string, members: string[]): Promise<ElymentsGroupMetadata> {
+    const title = name.trim();
+    if (!title) throw new Error("Group name is required");
+
+    const metadata = await this.requireXmpp().createGroup(
+      { name: title, members: members.map((member) => this.resolveJid(member)) },
+      { timeoutMs: GROUP_QUERY_TIMEOUT_MS },
+    );
+    this.groups.set(metadata);
+    const entry: RecipientEntry = {
+      jid: metadata.jid,
+      title,
+      isGroup: true,
+      updatedAt: Date.now(),
+    };
+    this.recipientIndex.set(metadata.jid, entry);
+    this.recipientIndex.set(title.toLowerCase(), entry);
+    return metadata;
+  }
+
+  // Add members to a group we own
+  async addGroupMembers(group: string, members: string[]): Promise<void> {
+    await this.changeGroupMembers(group, members, "member");
+  }
+
+  // Remove members from a group we own
+  async removeGroupMembers(group: string, members: string[]): Promise<void> {
+    await this.changeGroupMembers(group, members, "none");
+  }
+
+  // Rename a group (other members see a configuration change)
+  async renameGroup(group: string, name: string): Promise<void> {
+    const title = name.trim();
+    if (!title) throw new Error("Group name is required");
+
+    const jid = this.resolveGroupJid(group);
+    await this.requireXmpp().setGroupConfiguration(
+      jid,
+      { name: title },
+      { timeoutMs: GROUP_QUERY_TIMEOUT_MS },
+    );
+    const entry: RecipientEntry = { jid, title, isGroup: true, updatedAt: Date.now() };
+    this.recipientIndex.set(jid, entry);
+    this.recipientIndex.set(title.toLowerCase(), entry);
+  }
+
+  private async changeGroupMembers(
+    group: string,
+    members: string[],
+    affiliation: "member" | "none",
+  ): Promise<void> {
+    if (members.length === 0) throw new Error("At least one member is required");
+
+    const jid = this.resolveGroupJid(group);
+    const changes = members.map((member) => ({ jid: this.resolveJid(member), affiliation }));
+    await this.requireXmpp().setGroupAffiliations(jid, changes, {
+      timeoutMs: GROUP_QUERY_TIMEOUT_MS,
+    });
+  }
+
+  private resolveGroupJid(group: string): string {
+    const jid = bareJid(this.resolveJid(group)).toLowerCase();
+    if (!isElymentsGroup(jid)) {
+      throw new Error(`Not an Elyments group: ${group}`);
+    }
+    return jid;
+  }
+
+  private requireXmpp(): ElymentsXmppClient {
+    if (!this.xmpp?.isConnected()) {
+      throw new Error("Not connected to Elyments");
+    }
+    return this.xmpp;
+  }
+
+  // Number of reconnect attempts since the last stable connection
+  getReconnectAttempts(): number {
+    return this.reconnectAttempts;
   }
 
   // Disconnect from Elyments
   async disconnect(): Promise<void> {
+    this.stopped = true;
+    this.sendQueue.close();
+    this.tokenRefresher.stop();
+    this.clearStableTimer();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.xmpp) {
-      await this.xmpp.disconnect();
+      const xmpp = this.xmpp;
       this.xmpp = null;
+      xmpp.removeAllListeners();
+      await xmpp.disconnect();
     }
   }
 
@@ -83,15 +514,16 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
     return this.xmpp?.isConnected() ?? false;
   }
 
-  // Send text message
-  async sendText(to: string, text: string, senderName?: string): Promise<string> {
-    if (!this.xmpp?.isConnected()) {
-      throw new Error("Not connected to Elyments");
-    }
-
+  // Send text message (quoting replyTo when given)
+  async sendText(
+    to: string,
+    text: string,
+    senderName?: string,
+    replyTo?: ElymentsQuote,
+  ): Promise<string> {
     const jid = this.resolveJid(to);
     const name = senderName || this.getSenderName();
-    return await this.xmpp.sendText(jid, text, name);
+    return await this.enqueueSend(jid, (xmpp) => xmpp.sendText(jid, text, name, replyTo));
   }
 
   // Send media message
@@ -101,13 +533,94 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
     caption?: string,
     senderName?: string,
   ): Promise<string> {
+    const jid = this.resolveJid(to);
+    const name = senderName || this.getSenderName();
+    return await this.enqueueSend(jid, (xmpp) => xmpp.sendMedia(jid, media, caption, name));
+  }
+
+  // True while connected or supervising reconnects (sends are buffered meanwhile)
+  isRunning(): boolean {
+    return !this.stopped || this.isConnected();
+  }
+
+  // Number of outbound messages waiting to be sent
+  getQueueDepth(): number {
+    return this.sendQueue.depth();
+  }
+
+  // Route a send through the per-chat queue (or straight out when it's disabled)
+  private async enqueueSend(
+    jid: string,
+    send: (xmpp: ElymentsXmppClient) => Promise<string>,
+  ): Promise<string> {
+    const attempt = async () => {
+      await this.rateLimiter.acquire(bareJid(jid));
+      if (!this.xmpp?.isConnected()) {
+        throw new Error("Not connected to Elyments");
+      }
+      return await send(this.xmpp);
+    };
+
+    if (this.options.sendQueue?.enabled === false || !this.isRunning()) {
+      return await attempt();
+    }
+    return await this.sendQueue.enqueue(bareJid(jid), attempt);
+  }
+
+  // React to a message by id (remove clears our reactions on it)
+  async sendReaction(
+    to: string,
+    messageId: string,
+    emoji: string,
+    opts?: { remove?: boolean },
+  ): Promise<void> {
     if (!this.xmpp?.isConnected()) {
       throw new Error("Not connected to Elyments");
     }
 
     const jid = this.resolveJid(to);
-    const name = senderName || this.getSenderName();
-    return await this.xmpp.sendMedia(jid, media, caption, name);
+    const reactions = opts?.remove || !emoji.trim() ? [] : [emoji.trim()];
+    await this.xmpp.sendReaction(jid, messageId, reactions);
+  }
+
+  // Acknowledge an inbound message (delivery receipt if requested, optional read marker)
+  async acknowledgeMessage(event: XmppMessageEvent, opts: { displayed: boolean }): Promise<void> {
+    if (!this.xmpp?.isConnected()) return;
+
+    const jid = bareJid(event.from);
+    const xmppId = event.xmppId ?? event.id;
+    // XEP-0184 receipts are one-to-one only
+    if (event.receiptRequested && event.type !== "groupchat") {
+      await this.xmpp.sendReceipt(event.from, xmppId, "received");
+    }
+    if (opts.displayed) {
+      // Group markers reference the archive id so every member resolves the same message
+      const markerId = event.type === "groupchat" ? (event.stanzaId ?? xmppId) : xmppId;
+      await this.xmpp.sendReceipt(jid, markerId, "displayed");
+    }
+  }
+
+  // Delivery state of a message we sent (by body or stanza id)
+  getDeliveryState(messageId: string): TrackedDelivery | undefined {
+    return this.deliveries.get(messageId);
+  }
+
+  getDeliveryStats(): DeliveryStats {
+    return this.deliveries.getStats();
+  }
+
+  // Query one page of the message archive (own archive or a group's)
+  async queryArchive(params: {
+    archiveJid?: string;
+    with?: string;
+    start?: number;
+    after?: string;
+    max?: number;
+  }): Promise<XmppArchivePage> {
+    if (!this.xmpp?.isConnected()) {
+      throw new Error("Not connected to Elyments");
+    }
+    return await this.xmpp.queryArchive(params);
   }
 
   // Send typing indicator
@@ -258,7 +771,7 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
         });
       }
 
-      return data.data.map((group) => ({
+      const groups = data.data.map((group) => ({
         id: group.id,
         jid: formatGroupJid(group.jid),
         isGroup: true,
@@ -266,6 +779,9 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
         lastMessage: group.lastMessage,
         raw: group,
       }));
+      this.groups.seed(groups);
+      this.groupTitlesLoaded = true;
+      return groups;
     }, this.env);
   }
 
@@ -367,15 +883,22 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
         return [];
       }
 
-      return data.data.map((msg) => ({
-        id: msg.id,
-        from: msg.from,
-        to: msg.to,
-        type: (msg.type || "chat") as "chat" | "groupchat",
-        body: msg.body || "",
-        timestamp: msg.timestamp,
-        senderName: msg.senderName,
-      }));
+      return data.data.map((msg) => {
+        const { content, body, senderName, media } = describeElymentsBody(
+          decodeElymentsBody(msg.body || ""),
+        );
+        return {
+          id: msg.id,
+          from: msg.from,
+          to: msg.to,
+          type: (msg.type || "chat") as "chat" | "groupchat",
+          body,
+          timestamp: msg.timestamp,
+          senderName: msg.senderName ?? senderName,
+          media,
+          content,
+        };
+      });
     }, this.env);
   }
 
@@ -396,21 +919,33 @@ export class ElymentsClient extends EventEmitter<ElymentsClientEvents> {
 
   // Get current user ID
   getUserId(): string | null {
+    if (this.userId) return this.userId;
     const session = loadElymentsSession(this.env);
     return session?.userId || null;
   }
 }
 
-// Shared client instance
-let sharedClient: ElymentsClient | null = null;
+// Shared client per account (the running monitor registers its client here)
+const sharedClients = new Map<string, ElymentsClient>();
 
-export function getSharedElymentsClient(env?: NodeJS.ProcessEnv): ElymentsClient {
-  if (!sharedClient) {
-    sharedClient = new ElymentsClient(env);
+export function getSharedElymentsClient(accountId?: string | null): ElymentsClient {
+  const key = normalizeAccountId(accountId);
+  let client = sharedClients.get(key);
+  if (!client) {
+    client = new ElymentsClient(elymentsAccountEnv(key));
+    sharedClients.set(key, client);
   }
-  return sharedClient;
+  return client;
 }
 
-export function setSharedElymentsClient(client: ElymentsClient | null): void {
-  sharedClient = client;
+export function setSharedElymentsClient(
+  client: ElymentsClient | null,
+  accountId?: string | null,
+): void {
+  const key = normalizeAccountId(accountId);
+  if (client) {
+    sharedClients.set(key, client);
+  } else {
+    sharedClients.delete(key);
+  }
 }
@@ -0,0 +1,190 @@
+import { xml } from "@xmpp/client";
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeElymentsBody,
+  decodeMessageStanza,
+  encodeElymentsBody,
+  encodeReplyBody,
+  encodeTextBody,
+  generateBodyId,
+  getElymentsBodyText,
+  validateElymentsBody,
+} from "./codec.js";
+import type { XmppElement } from "./xmpp.js";
+
+function roundTrip(wire: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(encodeElymentsBody(decodeElymentsBody(JSON.stringify(wire))));
+}
+
+const envelope = {
+  senderName: "Asha",
+  ver: 1,
+  id: "ABC123",
+  lang: "en",
+  isFwd: false,
+  origin: "A|Android|2.1",
+};
+
+describe("elyments codec", () => {
+  it("round-trips a text body", () => {
+    const wire = { ...envelope, type: "text", info: { message: "hello" } };
+    expect(roundTrip(wire)).toEqual(wire);
+  });
+
+  it("keeps unknown envelope and info fields", () => {
+    const wire = {
+      ...envelope,
+      type: "text",
+      info: { message: "hi", mentions: ["u1"] },
+      clientTs: 1700000000,
+    };
+    expect(roundTrip(wire)).toEqual(wire);
+  });
+
+  it("round-trips a reply body", () => {
+    const wire = {
+      ...envelope,
+      type: "reply",
+      info: { message: "yes", replyId: "Q1", replyMessage: "coming?", replySenderName: "Ravi" },
+    };
+    expect(roundTrip(wire)).toEqual(wire);
+  });
+
+  it("keeps the wire type of replies sent as text", () => {
+    const wire = { ...envelope, type: "text", info: { message: "yes", replyId: "Q1" } };
+    const body = decodeElymentsBody(JSON.stringify(wire));
+    expect(body.kind).toBe("reply");
+    expect(roundTrip(wire)).toEqual(wire);
+  });
+
+  it("round-trips a media body", () => {
+    const wire = {
+      ...envelope,
+      type: "image",
+      info: {
+        url: "https://media.elyments.com/a.jpg",
+        mediaId: "M1",
+        caption: "look",
+        mimeType: "image/jpeg",
+        width: 640,
+        height: 480,
+      },
+    };
+    expect(roundTrip(wire)).toEqual(wire);
+  });
+
+  it("round-trips location, contact and system bodies", () => {
+    for (const wire of [
+      { ...envelope, type: "location", info: { latitude: 0, longitude: 77.5, name: "Office" } },
+      { ...envelope, type: "contact", info: { name: "Ravi", phoneNumbers: ["919876543210"] } },
+      { ...envelope, type: "system", info: { event: "member_added", members: ["u1"] } },
+    ]) {
+      expect(roundTrip(wire)).toEqual(wire);
+    }
+  });
+
+  it("decodes plain text and non-object bodies as text", () => {
+    expect(decodeElymentsBody("just text")).toMatchObject({ kind: "text", text: "just text" });
+    expect(decodeElymentsBody("42")).toMatchObject({ kind: "text", text: "42" });
+  });
+
+  it("falls back to unknown for bodies it can't validate", () => {
+    const body = decodeElymentsBody(JSON.stringify({ type: "poll", info: { message: "vote" } }));
+    expect(body).toMatchObject({ kind: "unknown", type: "poll", text: "vote" });
+    expect(getElymentsBodyText(body)).toBe("vote");
+  });
+
+  it("rejects invalid bodies on encode", () => {
+    expect(() =>
+      encodeElymentsBody({ kind: "reply", ver: 1, text: "x", quoted: { id: "" } }),
+    ).toThrow(/quoted message id/);
+  });
+
+  it("builds text and reply bodies with envelope defaults", () => {
+    const text = JSON.parse(encodeTextBody({ id: "T1", text: "hi" }));
+    expect(text).toMatchObject({ id: "T1", type: "text", senderName: "Clawdbot", isFwd: false });
+
+    const reply = JSON.parse(
+      encodeReplyBody({ id: "R1", text: "ok", quoted: { id: "Q1", text: "ready?" } }),
+    );
+    expect(reply).toMatchObject({
+      type: "reply",
+      info: { message: "ok", replyId: "Q1", replyMessage: "ready?" },
+    });
+  });
+});
+
+describe("validateElymentsBody", () => {
+  it("names what each kind is missing", () => {
+    const ver = 1;
+    expect(
+      validateElymentsBody({ kind: "location", ver, latitude: 91, longitude: 0 }),
+    ).toMatch(/latitude/);
+    expect(
+      validateElymentsBody({ kind: "location", ver, latitude: 0, longitude: Number.NaN }),
+    ).toMatch(/longitude/);
+    expect(validateElymentsBody({ kind: "contact", ver, name: " ", phones: [] })).toMatch(/name/);
+    expect(validateElymentsBody({ kind: "system", ver, event: "" })).toMatch(/event/);
+    expect(
+      validateElymentsBody({ kind: "media", ver, media: { id: "m", type: "image", url: "" } }),
+    ).toMatch(/url/);
+    expect(validateElymentsBody({ kind: "text", ver, text: "" })).toBeNull();
+  });
+});
+
+describe("getElymentsBodyText", () => {
+  it("renders non-text kinds as readable placeholders", () => {
+    const ver = 1;
+    expect(
+      getElymentsBodyText({ kind: "location", ver, latitude: 12.9, longitude: 77.5, name: "HQ" }),
+    ).toBe("<location: 12.9,77.5 HQ>");
+    expect(getElymentsBodyText({ kind: "contact", ver, name: "Ravi", phones: ["9198"] })).toBe(
+      "<contact: Ravi 9198>",
+    );
+    expect(getElymentsBodyText({ kind: "system", ver, event: "member_added" })).toBe(
+      "<member_added>",
+    );
+  });
+});
+
+describe("generateBodyId", () => {
+  it("generates uppercase hex ids like official clients", () => {
+    expect(generateBodyId()).toMatch(/^[0-9A-F]{32}$/);
+  });
+});
+
+describe("decodeMessageStanza", () => {
+  const stanza = (...children: unknown[]) =>
+    xml("message", { type: "chat" }, ...(children as never[])) as unknown as XmppElement;
+
+  it("folds a legacy media element into a media body", () => {
+    const legacy = {
+      xmlns: "elyments:media",
+      url: "https://media.elyments.com/a.mp4",
+      type: "VIDEO",
+    };
+    const decoded = decodeMessageStanza(stanza(xml("body", {}, "look"), xml("x", legacy)));
+    expect(decoded).toMatchObject({
+      body: "look",
+      content: { kind: "media", caption: "look" },
+      media: { type: "video", url: "https://media.elyments.com/a.mp4" },
+    });
+  });
+
+  it("prefers media from the JSON body and skips empty messages", () => {
+    const body = JSON.stringify({
+      ...envelope,
+      type: "image",
+      info: { url: "https://media.elyments.com/b.jpg", mediaId: "M1" },
+    });
+    const decoded = decodeMessageStanza(
+      stanza(
+        xml("body", {}, body),
+        xml("x", { xmlns: "elyments:media", url: "https://media.elyments.com/old.jpg" }),
+      ),
+    );
+    expect(decoded?.media?.url).toBe("https://media.elyments.com/b.jpg");
+    expect(decodeMessageStanza(stanza())).toBeNull();
+  });
+});
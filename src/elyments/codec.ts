@@ -0,0 +1,569 @@
+import * as crypto from "node:crypto";
+import type { ElymentsMediaInfo } from "../types.js";
+import type { XmppElement } from "./xmpp.js";
+
+// Shared encoder/decoder for the Elyments JSON message body.
+// Every body is an envelope ({ senderName, ver, id, type, lang, isFwd, origin })
+// with a type-specific "info" payload. Unknown fields are kept in `extra` /
+// `infoExtra` so decode -> encode round-trips without losing data.
+
+export const ELYMENTS_BODY_VERSION = 1;
+const BODY_ORIGIN = "W|NodeJS|clawdbot";
+
+type BodyCommon = {
+  id?: string;
+  ver: number;
+  senderName?: string;
+  lang?: string;
+  // Forwarded copy of another message (isFwd on the wire)
+  forwarded?: boolean;
+  origin?: string;
+  extra?: Record<string, unknown>;
+  infoExtra?: Record<string, unknown>;
+};
+
+// Message a reply quotes
+export type ElymentsQuote = {
+  id: string;
+  text?: string;
+  senderName?: string;
+  senderJid?: string;
+};
+
+export type ElymentsTextBody = BodyCommon & { kind: "text"; text: string };
+
+export type ElymentsMediaBody = BodyCommon & {
+  kind: "media";
+  media: ElymentsMediaInfo;
+  caption?: string;
+};
+
+export type ElymentsReplyBody = BodyCommon & {
+  kind: "reply";
+  text: string;
+  quoted: ElymentsQuote;
+  // Some clients send replies as type "text" with a replyId; kept so re-encoding
+  // doesn't change the wire type (default "reply")
+  wireType?: "reply" | "text";
+};
+
+export type ElymentsLocationBody = BodyCommon & {
+  kind: "location";
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+};
+
+export type ElymentsContactBody = BodyCommon & {
+  kind: "contact";
+  name: string;
+  phones: string[];
+  jid?: string;
+};
+
+// Group/system notifications (member added, subject changed, ...)
+export type ElymentsSystemBody = BodyCommon & {
+  kind: "system";
+  event: string;
+  text?: string;
+  actor?: string;
+  members?: string[];
+};
+
+// Body type we don't understand yet; `type` is the raw wire type
+export type ElymentsUnknownBody = BodyCommon & {
+  kind: "unknown";
+  type: string;
+  text?: string;
+};
+
+export type ElymentsBody =
+  | ElymentsTextBody
+  | ElymentsMediaBody
+  | ElymentsReplyBody
+  | ElymentsLocationBody
+  | ElymentsContactBody
+  | ElymentsSystemBody
+  | ElymentsUnknownBody;
+
+// Kind-specific fields of a body (without the envelope)
+type ElymentsBodyPayload = ElymentsBody extends infer B
+  ? B extends ElymentsBody
+    ? Omit<B, keyof BodyCommon>
+    : never
+  : never;
+
+const MEDIA_KINDS: Record<string, ElymentsMediaInfo["type"]> = {
+  image: "image",
+  photo: "image",
+  gif: "image",
+  sticker: "image",
+  video: "video",
+  audio: "audio",
+  voice: "audio",
+  document: "document",
+  file: "document",
+  doc: "document",
+};
+
+const SYSTEM_TYPES = new Set(["system", "notification", "groupevent", "group_event", "info"]);
+
+const ENVELOPE_KEYS = new Set([
+  "senderName",
+  "sender_name",
+  "ver",
+  "id",
+  "type",
+  "lang",
+  "isFwd",
+  "origin",
+  "info",
+]);
+
+// Info keys understood for each kind (everything else goes to infoExtra)
+const INFO_KEYS: Record<ElymentsBody["kind"], string[]> = {
+  text: ["message"],
+  media: [
+    "url",
+    "mediaUrl",
+    "fileUrl",
+    "link",
+    "mediaId",
+    "id",
+    "caption",
+    "message",
+    "fileName",
+    "name",
+    "filename",
+    "size",
+    "fileSize",
+    "mimeType",
+    "contentType",
+    "mime",
+    "width",
+    "height",
+    "duration",
+    "thumbnail",
+    "thumbUrl",
+  ],
+  reply: [
+    "message",
+    "replyId",
+    "replyMessage",
+    "replySenderName",
+    "replySenderJid",
+    "replyTo",
+    "quoted",
+  ],
+  location: ["latitude", "longitude", "lat", "lng", "lon", "name", "address"],
+  contact: ["name", "phoneNumbers", "phones", "phone", "jid"],
+  system: ["event", "message", "actor", "members"],
+  unknown: ["message", "caption"],
+};
+
+// Generate an Elyments body id (32 uppercase hex chars, like official clients)
+export function generateBodyId(): string {
+  return crypto.randomBytes(16).toString("hex").toUpperCase();
+}
+
+function pickString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function pickNumber(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const num = typeof value === "string" ? Number(value) : value;
+    if (typeof num === "number" && Number.isFinite(num) && num > 0) return num;
+  }
+  return undefined;
+}
+
+// Like pickNumber, but allows zero/negative values (coordinates)
+function pickCoordinate(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const num = typeof value === "string" && value.trim() ? Number(value) : value;
+    if (typeof num === "number" && Number.isFinite(num)) return num;
+  }
+  return undefined;
+}
+
+function pickStrings(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => pickString(entry)).filter((entry): entry is string => Boolean(entry));
+  }
+  const single = pickString(value);
+  return single ? [single] : [];
+}
+
+function pickRest(
+  source: Record<string, unknown>,
+  known: Set<string> | string[],
+): Record<string, unknown> | undefined {
+  const knownSet = known instanceof Set ? known : new Set(known);
+  const rest = Object.fromEntries(Object.entries(source).filter(([key]) => !knownSet.has(key)));
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+// Decode the type-specific payload; returns null when required fields are missing
+function decodeInfo(
+  wireType: string,
+  info: Record<string, unknown>,
+  bodyId: string | undefined,
+): ElymentsBodyPayload | null {
+  const type = wireType.toLowerCase();
+  const replyTo = asRecord(info.replyTo ?? info.quoted);
+  const replyId = pickString(info.replyId, replyTo.id);
+
+  if (type === "reply" || (type === "text" && replyId)) {
+    if (!replyId) return null;
+    return {
+      kind: "reply",
+      ...(type === "text" ? { wireType: "text" as const } : {}),
+      text: pickString(info.message) ?? "",
+      quoted: {
+        id: replyId,
+        text: pickString(info.replyMessage, replyTo.message, replyTo.text),
+        senderName: pickString(info.replySenderName, replyTo.senderName),
+        senderJid: pickString(info.replySenderJid, replyTo.senderJid, replyTo.jid),
+      },
+    };
+  }
+
+  if (type === "text") {
+    return { kind: "text", text: typeof info.message === "string" ? info.message : "" };
+  }
+
+  const mediaKind = MEDIA_KINDS[type];
+  if (mediaKind) {
+    const url = pickString(info.url, info.mediaUrl, info.fileUrl, info.link);
+    if (!url) return null;
+    return {
+      kind: "media",
+      caption: pickString(info.caption, info.message),
+      media: {
+        type: mediaKind,
+        url,
+        id: pickString(info.mediaId, info.id, bodyId) ?? url,
+        name: pickString(info.fileName, info.name, info.filename),
+        size: pickNumber(info.size, info.fileSize),
+        mimeType: pickString(info.mimeType, info.contentType, info.mime),
+        width: pickNumber(info.width),
+        height: pickNumber(info.height),
+        duration: pickNumber(info.duration),
+        thumbnail: pickString(info.thumbnail, info.thumbUrl),
+      },
+    };
+  }
+
+  if (type === "location") {
+    const latitude = pickCoordinate(info.latitude, info.lat);
+    const longitude = pickCoordinate(info.longitude, info.lng, info.lon);
+    if (latitude === undefined || longitude === undefined) return null;
+    return {
+      kind: "location",
+      latitude,
+      longitude,
+      name: pickString(info.name),
+      address: pickString(info.address),
+    };
+  }
+
+  if (type === "contact") {
+    const phones = pickStrings(info.phoneNumbers ?? info.phones ?? info.phone);
+    const name = pickString(info.name) ?? phones[0];
+    if (!name) return null;
+    return { kind: "contact", name, phones, jid: pickString(info.jid) };
+  }
+
+  if (SYSTEM_TYPES.has(type)) {
+    return {
+      kind: "system",
+      event: pickString(info.event) ?? type,
+      text: pickString(info.message),
+      actor: pickString(info.actor),
+      members: Array.isArray(info.members) ? pickStrings(info.members) : undefined,
+    };
+  }
+
+  return null;
+}
+
+// Decode a raw message body. Plain-text bodies become text bodies; bodies we
+// can't validate fall back to "unknown" so callers still get any text.
+export function decodeElymentsBody(rawBody: string): ElymentsBody {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawBody);
+  } catch {
+    return { kind: "text", ver: ELYMENTS_BODY_VERSION, text: rawBody };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { kind: "text", ver: ELYMENTS_BODY_VERSION, text: rawBody };
+  }
+
+  const envelope = parsed as Record<string, unknown>;
+  const info = asRecord(envelope.info);
+  const wireType = pickString(envelope.type) ?? "text";
+  const ver = typeof envelope.ver === "number" ? envelope.ver : ELYMENTS_BODY_VERSION;
+
+  const common: BodyCommon = {
+    id: pickString(envelope.id),
+    ver,
+    senderName: pickString(envelope.senderName, envelope.sender_name),
+    lang: pickString(envelope.lang),
+    forwarded: envelope.isFwd === true ? true : undefined,
+    origin: pickString(envelope.origin),
+    extra: pickRest(envelope, ENVELOPE_KEYS),
+  };
+
+  const decoded = decodeInfo(wireType, info, common.id);
+  if (decoded) {
+    return {
+      ...common,
+      ...decoded,
+      infoExtra: pickRest(info, INFO_KEYS[decoded.kind]),
+    } as ElymentsBody;
+  }
+
+  return {
+    ...common,
+    kind: "unknown",
+    type: wireType,
+    text: pickString(info.message, info.caption),
+    infoExtra: pickRest(info, INFO_KEYS.unknown),
+  };
+}
+
+// Check a body before encoding; returns an error message or null
+export function validateElymentsBody(body: ElymentsBody): string | null {
+  switch (body.kind) {
+    case "text":
+      return typeof body.text === "string" ? null : "text body requires text";
+    case "media":
+      if (!body.media?.url) return "media body requires a url";
+      return MEDIA_KINDS[body.media.type] ? null : `unsupported media type: ${body.media.type}`;
+    case "reply":
+      return body.quoted?.id ? null : "reply body requires the quoted message id";
+    case "location":
+      if (!Number.isFinite(body.latitude) || Math.abs(body.latitude) > 90) {
+        return "location body requires a valid latitude";
+      }
+      if (!Number.isFinite(body.longitude) || Math.abs(body.longitude) > 180) {
+        return "location body requires a valid longitude";
+      }
+      return null;
+    case "contact":
+      return body.name?.trim() ? null : "contact body requires a name";
+    case "system":
+      return body.event?.trim() ? null : "system body requires an event";
+    case "unknown":
+      return body.type?.trim() ? null : "unknown body requires its wire type";
+  }
+}
+
+function encodeInfo(body: ElymentsBody): { type: string; info: Record<string, unknown> } {
+  switch (body.kind) {
+    case "text":
+      return { type: "text", info: { message: body.text } };
+    case "media": {
+      const { media } = body;
+      const info: Record<string, unknown> = { url: media.url, mediaId: media.id };
+      if (body.caption) info.caption = body.caption;
+      if (media.name) info.fileName = media.name;
+      if (media.size) info.size = media.size;
+      if (media.mimeType) info.mimeType = media.mimeType;
+      if (media.width) info.width = media.width;
+      if (media.height) info.height = media.height;
+      if (media.duration) info.duration = media.duration;
+      if (media.thumbnail) info.thumbnail = media.thumbnail;
+      return { type: media.type, info };
+    }
+    case "reply": {
+      const info: Record<string, unknown> = { message: body.text, replyId: body.quoted.id };
+      if (body.quoted.text) info.replyMessage = body.quoted.text;
+      if (body.quoted.senderName) info.replySenderName = body.quoted.senderName;
+      if (body.quoted.senderJid) info.replySenderJid = body.quoted.senderJid;
+      return { type: body.wireType ?? "reply", info };
+    }
+    case "location": {
+      const info: Record<string, unknown> = {
+        latitude: body.latitude,
+        longitude: body.longitude,
+      };
+      if (body.name) info.name = body.name;
+      if (body.address) info.address = body.address;
+      return { type: "location", info };
+    }
+    case "contact": {
+      const info: Record<string, unknown> = { name: body.name, phoneNumbers: body.phones };
+      if (body.jid) info.jid = body.jid;
+      return { type: "contact", info };
+    }
+    case "system": {
+      const info: Record<string, unknown> = { event: body.event };
+      if (body.text) info.message = body.text;
+      if (body.actor) info.actor = body.actor;
+      if (body.members) info.members = body.members;
+      return { type: "system", info };
+    }
+    case "unknown":
+      return { type: body.type, info: body.text ? { message: body.text } : {} };
+  }
+}
+
+// Encode a body to its JSON wire form (throws if the body is invalid)
+export function encodeElymentsBody(body: ElymentsBody): string {
+  const error = validateElymentsBody(body);
+  if (error) {
+    throw new Error(`Invalid Elyments body: ${error}`);
+  }
+
+  const { type, info } = encodeInfo(body);
+  return JSON.stringify({
+    ...body.extra,
+    senderName: body.senderName || "Clawdbot",
+    ver: body.ver || ELYMENTS_BODY_VERSION,
+    info: { ...body.infoExtra, ...info },
+    id: body.id || generateBodyId(),
+    type,
+    lang: body.lang || "en",
+    isFwd: body.forwarded === true,
+    origin: body.origin || BODY_ORIGIN,
+  });
+}
+
+// Build a text message body
+export function encodeTextBody(params: { id: string; text: string; senderName?: string }): string {
+  return encodeElymentsBody({
+    kind: "text",
+    ver: ELYMENTS_BODY_VERSION,
+    id: params.id,
+    senderName: params.senderName,
+    text: params.text,
+  });
+}
+
+// Build a quoted reply body
+export function encodeReplyBody(params: {
+  id: string;
+  text: string;
+  quoted: ElymentsQuote;
+  senderName?: string;
+}): string {
+  return encodeElymentsBody({
+    kind: "reply",
+    ver: ELYMENTS_BODY_VERSION,
+    id: params.id,
+    senderName: params.senderName,
+    text: params.text,
+    quoted: params.quoted,
+  });
+}
+
+// Build a media message body (image/video/audio/document)
+export function encodeMediaBody(params: {
+  id: string;
+  media: ElymentsMediaInfo;
+  caption?: string;
+  senderName?: string;
+}): string {
+  return encodeElymentsBody({
+    kind: "media",
+    ver: ELYMENTS_BODY_VERSION,
+    id: params.id,
+    senderName: params.senderName,
+    media: params.media,
+    caption: params.caption,
+  });
+}
+
+// Human-readable text of a body (media bodies yield only their caption)
+export function getElymentsBodyText(body: ElymentsBody): string {
+  switch (body.kind) {
+    case "text":
+    case "reply":
+      return body.text;
+    case "media":
+      return body.caption ?? "";
+    case "location": {
+      const label = [body.name, body.address].filter(Boolean).join(", ");
+      return `<location: ${body.latitude},${body.longitude}${label ? ` ${label}` : ""}>`;
+    }
+    case "contact":
+      return `<contact: ${body.name}${body.phones.length ? ` ${body.phones.join(", ")}` : ""}>`;
+    case "system":
+      return body.text ?? `<${body.event}>`;
+    case "unknown":
+      return body.text ?? "";
+  }
+}
+
+// Parse the legacy <x xmlns="elyments:media"/> element (older senders)
+export function decodeMediaElement(stanza: XmppElement): ElymentsMediaInfo | undefined {
+  const attrs = stanza.getChild("x", "elyments:media")?.attrs;
+  if (!attrs?.url) return undefined;
+
+  return {
+    type: MEDIA_KINDS[(attrs.type || "").toLowerCase()] ?? "document",
+    url: attrs.url,
+    id: attrs.id || attrs.url,
+    name: attrs.name || undefined,
+    size: pickNumber(attrs.size),
+    mimeType: attrs.mimeType || undefined,
+    duration: pickNumber(attrs.duration),
+    thumbnail: attrs.thumbnail || undefined,
+  };
+}
+
+// Decoded stanza body plus the flat fields carried on message events
+export type DecodedElymentsBody = {
+  content: ElymentsBody;
+  body: string;
+  senderName?: string;
+  messageId?: string;
+  media?: ElymentsMediaInfo;
+};
+
+// Flatten a typed body into message event fields
+export function describeElymentsBody(content: ElymentsBody): DecodedElymentsBody {
+  return {
+    content,
+    body: getElymentsBodyText(content),
+    senderName: content.senderName,
+    messageId: content.id,
+    media: content.kind === "media" ? content.media : undefined,
+  };
+}
+
+// Decode the body of a message stanza, folding in legacy media elements
+export function decodeMessageStanza(message: XmppElement): DecodedElymentsBody | null {
+  const rawBody = message.getChildText("body") || "";
+  const elementMedia = decodeMediaElement(message);
+  if (!rawBody && !elementMedia) return null;
+
+  const content: ElymentsBody = rawBody
+    ? decodeElymentsBody(rawBody)
+    : { kind: "text", ver: ELYMENTS_BODY_VERSION, text: "" };
+  if (elementMedia && content.kind !== "media") {
+    const caption = getElymentsBodyText(content) || undefined;
+    return describeElymentsBody({
+      id: content.id,
+      ver: content.ver,
+      senderName: content.senderName,
+      kind: "media",
+      media: elementMedia,
+      caption,
+    });
+  }
+  return describeElymentsBody(content);
+}
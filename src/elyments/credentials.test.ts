@@ -0,0 +1,184 @@
+import { spawnSync } from "node:child_process";
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { ElymentsSession } from "../types.js";
+import {
+  ElymentsCredentialsKeyError,
+  elymentsCredentialsExist,
+  getCredentialsDir,
+  loadElymentsSession,
+  saveElymentsSession,
+  withCredentialsLock,
+} from "./credentials.js";
+
+const session: ElymentsSession = {
+  userId: "u1",
+  accessToken: "access",
+  chatAccessToken: "chat",
+  refreshToken: "refresh",
+  savedAt: 1,
+};
+
+describe("credential encryption", () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-creds-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  const sessionPath = () => path.join(getCredentialsDir({ HOME: home }), "session.json");
+  const readRaw = () => JSON.parse(fs.readFileSync(sessionPath(), "utf-8"));
+
+  it("stores plaintext when no key is set", () => {
+    const env = { HOME: home };
+    saveElymentsSession(session, env);
+    expect(readRaw()).toEqual(session);
+    expect(loadElymentsSession(env)).toEqual(session);
+  });
+
+  it("round-trips with a passphrase", () => {
+    const env = { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "correct horse" };
+    saveElymentsSession(session, env);
+    const raw = readRaw();
+    expect(raw).toMatchObject({ encrypted: "aes-256-gcm", kdf: "scrypt" });
+    expect(JSON.stringify(raw)).not.toContain("access");
+    expect(loadElymentsSession(env)).toEqual(session);
+  });
+
+  it("round-trips with a raw key", () => {
+    const env = { HOME: home, ELYMENTS_CREDENTIALS_KEY: crypto.randomBytes(32).toString("hex") };
+    saveElymentsSession(session, env);
+    expect(readRaw()).toMatchObject({ encrypted: "aes-256-gcm", kdf: "raw" });
+    expect(loadElymentsSession(env)).toEqual(session);
+  });
+
+  it("uses a fresh IV for every write", () => {
+    const env = { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "pw" };
+    saveElymentsSession(session, env);
+    const first = readRaw();
+    saveElymentsSession(session, env);
+    expect(readRaw().iv).not.toBe(first.iv);
+  });
+
+  it("throws a key error for a wrong passphrase", () => {
+    saveElymentsSession(session, { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "right" });
+    expect(() =>
+      loadElymentsSession({ HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "wrong" }),
+    ).toThrow(ElymentsCredentialsKeyError);
+  });
+
+  it("throws a key error when encrypted credentials have no key", () => {
+    saveElymentsSession(session, { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "pw" });
+    expect(() => loadElymentsSession({ HOME: home })).toThrow(/credentials are encrypted/);
+  });
+
+  it("throws a key error when the key kind doesn't match", () => {
+    saveElymentsSession(session, { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "pw" });
+    const env = { HOME: home, ELYMENTS_CREDENTIALS_KEY: crypto.randomBytes(32).toString("hex") };
+    expect(() => loadElymentsSession(env)).toThrow(ElymentsCredentialsKeyError);
+  });
+
+  it("still reports locked credentials as existing", () => {
+    saveElymentsSession(session, { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "pw" });
+    expect(elymentsCredentialsExist({ HOME: home })).toBe(true);
+  });
+
+  it("encrypts plaintext files in place once a key is set", () => {
+    saveElymentsSession(session, { HOME: home });
+    const env = { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "pw" };
+    expect(loadElymentsSession(env)).toEqual(session);
+    expect(readRaw()).toMatchObject({ encrypted: "aes-256-gcm" });
+    expect(loadElymentsSession(env)).toEqual(session);
+  });
+
+  it("returns null for unreadable files", () => {
+    saveElymentsSession(session, { HOME: home });
+    fs.writeFileSync(sessionPath(), "{not json");
+    expect(loadElymentsSession({ HOME: home })).toBeNull();
+  });
+
+  it.skipIf(process.platform === "win32")("writes files owner-only", () => {
+    saveElymentsSession(session, { HOME: home });
+    expect(fs.statSync(sessionPath()).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe("withCredentialsLock", () => {
+  let home: string;
+  let env: NodeJS.ProcessEnv;
+  let lockPath: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-lock-"));
+    env = { HOME: home };
+    lockPath = path.join(getCredentialsDir(env), "credentials.lock");
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it("holds the lock while the callback runs and releases it after", async () => {
+    const result = await withCredentialsLock(async () => {
+      expect(fs.existsSync(lockPath)).toBe(true);
+      return "done";
+    }, env);
+    expect(result).toBe("done");
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("releases the lock when the callback throws", async () => {
+    await expect(
+      withCredentialsLock(async () => {
+        throw new Error("refresh failed");
+      }, env),
+    ).rejects.toThrow("refresh failed");
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it("serializes concurrent holders", async () => {
+    const order: string[] = [];
+    const hold = (name: string) =>
+      withCredentialsLock(async () => {
+        order.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        order.push(`${name}:end`);
+      }, env);
+    await Promise.all([hold("a"), hold("b")]);
+    expect(order).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+  });
+
+  it("times out while another live process holds the lock", async () => {
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    const owner = { pid: process.ppid, nonce: "other", at: Date.now() };
+    fs.writeFileSync(lockPath, JSON.stringify(owner));
+    await expect(withCredentialsLock(async () => "x", env, { timeoutMs: 200 })).rejects.toThrow(
+      /Timed out/,
+    );
+  });
+
+  it("breaks a lock left by a dead process", async () => {
+    const dead = spawnSync(process.execPath, ["-e", ""]).pid;
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: dead, nonce: "other", at: Date.now() }));
+    await expect(withCredentialsLock(async () => "x", env, { timeoutMs: 1_000 })).resolves.toBe(
+      "x",
+    );
+  });
+
+  it("leaves a lock another holder took over", async () => {
+    await withCredentialsLock(async () => {
+      // Simulate our lock being broken as stale and re-taken by someone else
+      fs.writeFileSync(lockPath, JSON.stringify({ pid: process.ppid, nonce: "other" }));
+    }, env);
+    expect(JSON.parse(fs.readFileSync(lockPath, "utf-8"))).toMatchObject({ nonce: "other" });
+  });
+});
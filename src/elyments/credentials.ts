@@ -1,43 +1,322 @@
+import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import type { ElymentsSession, ElymentsDevice, ElymentsProfile } from "../types.js";
 
 const CREDENTIALS_DIR = ".clawdbot/credentials/elyments";
+const ACCOUNTS_DIR = "accounts";
 const SESSION_FILE = "session.json";
 const DEVICE_FILE = "device.json";
 const PROFILE_FILE = "profile.json";
 
-function getCredentialsDir(env: NodeJS.ProcessEnv = process.env): string {
+// Env var naming the account whose credentials the helpers below use
+export const ELYMENTS_ACCOUNT_ENV = "ELYMENTS_ACCOUNT_ID";
+const DEFAULT_CREDENTIALS_ACCOUNT = "default";
+
+function normalizeCredentialsAccountId(accountId: string | null | undefined): string {
+  const normalized = (accountId ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return normalized || DEFAULT_CREDENTIALS_ACCOUNT;
+}
+
+// Env scoped to one account; pass it to any helper taking `env`
+export function elymentsAccountEnv(
+  accountId?: string | null,
+  env: NodeJS.ProcessEnv = process.env,
+): NodeJS.ProcessEnv {
+  return { ...env, [ELYMENTS_ACCOUNT_ENV]: normalizeCredentialsAccountId(accountId) };
+}
+
+// The default account keeps the original directory; others get accounts/<id>
+export function getCredentialsDir(env: NodeJS.ProcessEnv = process.env): string {
   const home = env.HOME || os.homedir();
-  return path.join(home, CREDENTIALS_DIR);
+  const base = path.join(home, CREDENTIALS_DIR);
+  const accountId = normalizeCredentialsAccountId(env[ELYMENTS_ACCOUNT_ENV]);
+  if (accountId === DEFAULT_CREDENTIALS_ACCOUNT) return base;
+  return path.join(base, ACCOUNTS_DIR, accountId);
 }
 
-function ensureCredentialsDir(env?: NodeJS.ProcessEnv): string {
+export function ensureCredentialsDir(env?: NodeJS.ProcessEnv): string {
   const dir = getCredentialsDir(env);
   if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
   }
   return dir;
 }
 
-// Session management
-export function loadElymentsSession(env?: NodeJS.ProcessEnv): ElymentsSession | null {
+// Encryption at rest: a raw 32-byte key (hex or base64) or a passphrase run through scrypt
+export const ELYMENTS_CREDENTIALS_KEY_ENV = "ELYMENTS_CREDENTIALS_KEY";
+export const ELYMENTS_CREDENTIALS_PASSPHRASE_ENV = "ELYMENTS_CREDENTIALS_PASSPHRASE";
+const CIPHER = "aes-256-gcm";
+const FILE_MODE = 0o600;
+
+type EncryptedCredentialFile = {
+  encrypted: typeof CIPHER;
+  kdf: "raw" | "scrypt";
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+// Credentials exist on disk but can't be decrypted (no key set, wrong key or
+// passphrase). Thrown rather than treated as "not logged in" so callers don't
+// go on to overwrite the files.
+export class ElymentsCredentialsKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ElymentsCredentialsKeyError";
+  }
+}
+
+type CredentialKeySource = { kind: "raw"; key: Buffer } | { kind: "scrypt"; passphrase: string };
+
+function resolveCredentialKeySource(env: NodeJS.ProcessEnv): CredentialKeySource | null {
+  const raw = env[ELYMENTS_CREDENTIALS_KEY_ENV]?.trim();
+  if (raw) {
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+    if (key.length !== 32) {
+      throw new ElymentsCredentialsKeyError(
+        `${ELYMENTS_CREDENTIALS_KEY_ENV} must be 32 bytes (64 hex chars or base64)`,
+      );
+    }
+    return { kind: "raw", key };
+  }
+  const passphrase = env[ELYMENTS_CREDENTIALS_PASSPHRASE_ENV];
+  if (passphrase) return { kind: "scrypt", passphrase };
+  return null;
+}
+
+// scrypt is deliberately slow, and session reads happen on every send. Only the
+// last passphrase/salt pair is kept; writes reuse its salt (IVs stay per-write).
+let derivedKey: { passphrase: string; salt: string; key: Buffer } | null = null;
+
+function deriveCredentialKey(source: CredentialKeySource, salt?: Buffer): Buffer {
+  if (source.kind === "raw") return source.key;
+  if (!salt) {
+    throw new ElymentsCredentialsKeyError("Encrypted credentials are missing their scrypt salt");
+  }
+  const saltB64 = salt.toString("base64");
+  if (derivedKey?.passphrase === source.passphrase && derivedKey.salt === saltB64) {
+    return derivedKey.key;
+  }
+  const key = crypto.scryptSync(source.passphrase, salt, 32);
+  derivedKey = { passphrase: source.passphrase, salt: saltB64, key };
+  return key;
+}
+
+function credentialSalt(source: CredentialKeySource): Buffer | undefined {
+  if (source.kind === "raw") return undefined;
+  if (derivedKey?.passphrase === source.passphrase) return Buffer.from(derivedKey.salt, "base64");
+  return crypto.randomBytes(16);
+}
+
+function isEncryptedCredentialFile(value: unknown): value is EncryptedCredentialFile {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as EncryptedCredentialFile).encrypted === CIPHER &&
+    typeof (value as EncryptedCredentialFile).data === "string"
+  );
+}
+
+function encryptCredential(plaintext: string, source: CredentialKeySource): EncryptedCredentialFile {
+  const salt = credentialSalt(source);
+  const key = deriveCredentialKey(source, salt);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return {
+    encrypted: CIPHER,
+    kdf: source.kind,
+    ...(salt ? { salt: salt.toString("base64") } : {}),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decryptCredential(file: EncryptedCredentialFile, source: CredentialKeySource): string {
+  if (file.kdf !== source.kind) {
+    throw new ElymentsCredentialsKeyError(
+      file.kdf === "scrypt"
+        ? `credentials were encrypted with a passphrase; set ${ELYMENTS_CREDENTIALS_PASSPHRASE_ENV}`
+        : `credentials were encrypted with a raw key; set ${ELYMENTS_CREDENTIALS_KEY_ENV}`,
+    );
+  }
+  const salt = file.salt ? Buffer.from(file.salt, "base64") : undefined;
+  const key = deriveCredentialKey(source, salt);
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
   try {
-    const dir = getCredentialsDir(env);
-    const filePath = path.join(dir, SESSION_FILE);
-    if (!fs.existsSync(filePath)) return null;
-    const content = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(content) as ElymentsSession;
+    return Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
   } catch {
+    throw new ElymentsCredentialsKeyError(
+      file.kdf === "scrypt"
+        ? `could not decrypt credentials; ${ELYMENTS_CREDENTIALS_PASSPHRASE_ENV} is wrong`
+        : `could not decrypt credentials; ${ELYMENTS_CREDENTIALS_KEY_ENV} is wrong`,
+    );
+  }
+}
+
+// Write an owner-only (0600) file via a temp file + rename so a crash never
+// leaves a truncated file behind. Used for state files kept next to credentials.
+export function writePrivateFile(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, content, { encoding: "utf-8", mode: FILE_MODE });
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+function writeCredentialFile(filePath: string, value: unknown, env: NodeJS.ProcessEnv): void {
+  const json = JSON.stringify(value, null, 2);
+  const source = resolveCredentialKeySource(env);
+  const content = source ? JSON.stringify(encryptCredential(json, source), null, 2) : json;
+  writePrivateFile(filePath, content);
+}
+
+// Read a credential file, decrypting if needed. Plaintext files (and loose
+// permissions) are upgraded in place the first time they're read. Key problems
+// throw ElymentsCredentialsKeyError; unreadable files log and return null.
+function readCredentialFile<T>(filePath: string, env: NodeJS.ProcessEnv): T | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as unknown;
+    const source = resolveCredentialKeySource(env);
+
+    if (isEncryptedCredentialFile(parsed)) {
+      if (!source) {
+        throw new ElymentsCredentialsKeyError(
+          `credentials are encrypted; set ${ELYMENTS_CREDENTIALS_KEY_ENV} or ${ELYMENTS_CREDENTIALS_PASSPHRASE_ENV}`,
+        );
+      }
+      restrictCredentialFileMode(filePath);
+      return JSON.parse(decryptCredential(parsed, source)) as T;
+    }
+
+    try {
+      if (source) {
+        writeCredentialFile(filePath, parsed, env);
+      } else {
+        restrictCredentialFileMode(filePath);
+      }
+    } catch (err) {
+      console.warn(`[elyments] Could not upgrade ${path.basename(filePath)}: ${String(err)}`);
+    }
+    return parsed as T;
+  } catch (err) {
+    if (err instanceof ElymentsCredentialsKeyError) throw err;
+    console.error(`[elyments] Failed to read ${path.basename(filePath)}: ${String(err)}`);
     return null;
   }
 }
 
-export function saveElymentsSession(session: ElymentsSession, env?: NodeJS.ProcessEnv): void {
+function restrictCredentialFileMode(filePath: string): void {
+  if (process.platform === "win32") return;
+  const mode = fs.statSync(filePath).mode & 0o777;
+  if (mode !== FILE_MODE) fs.chmodSync(filePath, FILE_MODE);
+}
+
+// Cross-process lock on an account's credentials dir (gateway, CLI and scripts
+// may all refresh tokens). Held locks older than staleMs or whose owner died are broken.
+const LOCK_FILE = "credentials.lock";
+const DEFAULT_LOCK_TIMEOUT_MS = 30_000;
+const DEFAULT_LOCK_STALE_MS = 60_000;
+const LOCK_POLL_MS = 100;
+
+export async function withCredentialsLock<T>(
+  fn: () => Promise<T>,
+  env: NodeJS.ProcessEnv = process.env,
+  opts: { timeoutMs?: number; staleMs?: number } = {},
+): Promise<T> {
+  const lockPath = path.join(ensureCredentialsDir(env), LOCK_FILE);
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = opts.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  // Identifies this holder, so a lock broken as stale and re-taken by someone else isn't removed
+  const nonce = crypto.randomBytes(8).toString("hex");
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, "wx", FILE_MODE);
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, nonce, at: Date.now() }));
+      fs.closeSync(fd);
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    if (isStaleLock(lockPath, staleMs)) {
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for Elyments credentials lock (${lockPath})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    releaseCredentialsLock(lockPath, nonce);
+  }
+}
+
+function releaseCredentialsLock(lockPath: string, nonce: string): void {
+  try {
+    const owner = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { nonce?: string };
+    if (owner.nonce !== nonce) {
+      console.warn("[elyments] Credentials lock was taken over while held; leaving it in place");
+      return;
+    }
+    fs.rmSync(lockPath, { force: true });
+  } catch {
+    // Already gone (broken as stale); nothing to release
+  }
+}
+
+function isStaleLock(lockPath: string, staleMs: number): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > staleMs) return true;
+    const owner = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as { pid?: number };
+    if (typeof owner.pid !== "number" || owner.pid === process.pid) return false;
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (err) {
+      // EPERM means the process exists but belongs to someone else
+      return (err as NodeJS.ErrnoException).code === "ESRCH";
+    }
+  } catch {
+    // Lock vanished or is mid-write; just try again
+    return false;
+  }
+}
+
+// Session management
+export function loadElymentsSession(env: NodeJS.ProcessEnv = process.env): ElymentsSession | null {
+  return readCredentialFile<ElymentsSession>(path.join(getCredentialsDir(env), SESSION_FILE), env);
+}
+
+export function saveElymentsSession(
+  session: ElymentsSession,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
   const dir = ensureCredentialsDir(env);
-  const filePath = path.join(dir, SESSION_FILE);
-  fs.writeFileSync(filePath, JSON.stringify(session, null, 2), "utf-8");
+  writeCredentialFile(path.join(dir, SESSION_FILE), session, env);
 }
 
 export function deleteElymentsSession(env?: NodeJS.ProcessEnv): boolean {
@@ -63,22 +342,16 @@ export function touchElymentsSession(env?: NodeJS.ProcessEnv): void {
 }
 
 // Device management
-export function loadElymentsDevice(env?: NodeJS.ProcessEnv): ElymentsDevice | null {
-  try {
-    const dir = getCredentialsDir(env);
-    const filePath = path.join(dir, DEVICE_FILE);
-    if (!fs.existsSync(filePath)) return null;
-    const content = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(content) as ElymentsDevice;
-  } catch {
-    return null;
-  }
+export function loadElymentsDevice(env: NodeJS.ProcessEnv = process.env): ElymentsDevice | null {
+  return readCredentialFile<ElymentsDevice>(path.join(getCredentialsDir(env), DEVICE_FILE), env);
 }
 
-export function saveElymentsDevice(device: ElymentsDevice, env?: NodeJS.ProcessEnv): void {
+export function saveElymentsDevice(
+  device: ElymentsDevice,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
   const dir = ensureCredentialsDir(env);
-  const filePath = path.join(dir, DEVICE_FILE);
-  fs.writeFileSync(filePath, JSON.stringify(device, null, 2), "utf-8");
+  writeCredentialFile(path.join(dir, DEVICE_FILE), device, env);
 }
 
 export function getOrCreateDevice(env?: NodeJS.ProcessEnv): ElymentsDevice {
@@ -111,22 +384,16 @@ function generateDeviceToken(): string {
 }
 
 // Profile management
-export function loadElymentsProfile(env?: NodeJS.ProcessEnv): ElymentsProfile | null {
-  try {
-    const dir = getCredentialsDir(env);
-    const filePath = path.join(dir, PROFILE_FILE);
-    if (!fs.existsSync(filePath)) return null;
-    const content = fs.readFileSync(filePath, "utf-8");
-    return JSON.parse(content) as ElymentsProfile;
-  } catch {
-    return null;
-  }
+export function loadElymentsProfile(env: NodeJS.ProcessEnv = process.env): ElymentsProfile | null {
+  return readCredentialFile<ElymentsProfile>(path.join(getCredentialsDir(env), PROFILE_FILE), env);
 }
 
-export function saveElymentsProfile(profile: ElymentsProfile, env?: NodeJS.ProcessEnv): void {
+export function saveElymentsProfile(
+  profile: ElymentsProfile,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
   const dir = ensureCredentialsDir(env);
-  const filePath = path.join(dir, PROFILE_FILE);
-  fs.writeFileSync(filePath, JSON.stringify(profile, null, 2), "utf-8");
+  writeCredentialFile(path.join(dir, PROFILE_FILE), profile, env);
 }
 
 // Check if session is valid (not expired)
@@ -155,6 +422,13 @@ export function isTokenExpiring(token: string, bufferMs = 60_000): boolean {
   }
 }
 
+// Expiry of a JWT in epoch ms, or null when it has no exp claim
+export function getTokenExpiry(token: string | undefined): number | null {
+  if (!token) return null;
+  const payload = parseJwtPayload(token);
+  return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+}
+
 function parseJwtPayload(token: string): { exp?: number } | null {
   try {
     const parts = token.split(".");
@@ -168,8 +442,14 @@ function parseJwtPayload(token: string): { exp?: number } | null {
 
 // Check if credentials exist
 export function elymentsCredentialsExist(env?: NodeJS.ProcessEnv): boolean {
-  const session = loadElymentsSession(env);
-  return session !== null && Boolean(session.accessToken);
+  try {
+    const session = loadElymentsSession(env);
+    return session !== null && Boolean(session.accessToken);
+  } catch (err) {
+    // Still logged in; starting the account reports the key problem
+    if (err instanceof ElymentsCredentialsKeyError) return true;
+    throw err;
+  }
 }
 
 // Clear all credentials
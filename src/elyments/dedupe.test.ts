@@ -0,0 +1,103 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { getCredentialsDir } from "./credentials.js";
+import { ElymentsDedupeStore, buildDedupeKeys } from "./dedupe.js";
+import type { XmppMessageEvent } from "./xmpp.js";
+
+const event = (fields: Partial<XmppMessageEvent>): XmppMessageEvent => ({
+  id: "m1",
+  from: "Alice@localhost/phone",
+  to: "bot@localhost",
+  type: "chat",
+  body: "hi",
+  timestamp: 0,
+  ...fields,
+});
+
+describe("buildDedupeKeys", () => {
+  it("scopes every known id to the chat", () => {
+    expect(buildDedupeKeys(event({ originId: "o1", stanzaId: "s1" }))).toEqual([
+      "alice@localhost|id:m1",
+      "alice@localhost|origin:o1",
+      "alice@localhost|sid:s1",
+    ]);
+    expect(buildDedupeKeys(event({}))).toEqual(["alice@localhost|id:m1"]);
+  });
+});
+
+describe("ElymentsDedupeStore", () => {
+  let home: string;
+  let env: NodeJS.ProcessEnv;
+  let stores: ElymentsDedupeStore[];
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-dedupe-"));
+    env = { HOME: home };
+    stores = [];
+  });
+
+  afterEach(() => {
+    // Settle pending debounced saves before the directory goes away
+    for (const store of stores) store.flush();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  const open = (options?: ConstructorParameters<typeof ElymentsDedupeStore>[1]) => {
+    const store = new ElymentsDedupeStore(env, options);
+    stores.push(store);
+    return store;
+  };
+
+  it("flags a message seen under any of its ids", () => {
+    const store = open();
+    // Live delivery carries the origin id, the archive copy only its stanza id
+    const live = buildDedupeKeys(event({ originId: "o1", stanzaId: "s1" }));
+    const archived = buildDedupeKeys(event({ id: "s1", stanzaId: "s1" }));
+    expect(store.checkAndRecord(live, 1_000)).toBe(false);
+    expect(store.checkAndRecord(archived, 2_000)).toBe(true);
+    expect(store.checkAndRecord(buildDedupeKeys(event({ id: "m2" })), 3_000)).toBe(false);
+  });
+
+  it("keeps the same id apart across chats", () => {
+    const store = open();
+    expect(store.checkAndRecord(buildDedupeKeys(event({})), 0)).toBe(false);
+    expect(store.checkAndRecord(buildDedupeKeys(event({ from: "bob@localhost" })), 0)).toBe(false);
+  });
+
+  it("forgets ids after the TTL", () => {
+    const store = open({ ttlMs: 1_000 });
+    expect(store.checkAndRecord(["k"], 0)).toBe(false);
+    expect(store.checkAndRecord(["k"], 999)).toBe(true);
+    expect(store.checkAndRecord(["k"], 2_000)).toBe(false);
+  });
+
+  it("evicts the oldest ids beyond the size cap", () => {
+    const store = open({ maxEntries: 2 });
+    store.checkAndRecord(["a"], 1);
+    store.checkAndRecord(["b"], 2);
+    store.checkAndRecord(["c"], 3);
+    expect(store.checkAndRecord(["b"], 4)).toBe(true);
+    expect(store.checkAndRecord(["a"], 5)).toBe(false);
+  });
+
+  it("persists across restarts", () => {
+    const now = Date.now();
+    const first = open();
+    first.checkAndRecord(["k"], now);
+    first.flush();
+
+    const second = open();
+    expect(second.checkAndRecord(["k"], now + 1)).toBe(true);
+  });
+
+  it("starts empty from a corrupt file", () => {
+    const dir = getCredentialsDir(env);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, "inbound-dedupe.json"), "{nope");
+    const store = open();
+    expect(store.checkAndRecord(["k"], Date.now())).toBe(false);
+  });
+});
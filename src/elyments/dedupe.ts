@@ -0,0 +1,106 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { ensureCredentialsDir, getCredentialsDir, writePrivateFile } from "./credentials.js";
+import type { XmppMessageEvent } from "./xmpp.js";
+import { bareJid } from "./xmpp.js";
+
+const DEDUPE_FILE = "inbound-dedupe.json";
+const DEFAULT_MAX_ENTRIES = 5_000;
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60_000;
+const SAVE_DEBOUNCE_MS = 2_000;
+
+export type ElymentsDedupeOptions = {
+  maxEntries?: number;
+  ttlMs?: number;
+};
+
+// Every id a message may be known by; the same message can show up via
+// live delivery, carbons, MAM or redelivery with only some of these set
+export function buildDedupeKeys(event: XmppMessageEvent): string[] {
+  const chat = bareJid(event.from).toLowerCase();
+  const keys = [`${chat}|id:${event.id}`];
+  if (event.originId) keys.push(`${chat}|origin:${event.originId}`);
+  if (event.stanzaId) keys.push(`${chat}|sid:${event.stanzaId}`);
+  return keys;
+}
+
+// Bounded, persisted set of recently handled inbound message ids
+export class ElymentsDedupeStore {
+  private entries: Map<string, number> = new Map();
+  private env?: NodeJS.ProcessEnv;
+  private maxEntries: number;
+  private ttlMs: number;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(env?: NodeJS.ProcessEnv, options: ElymentsDedupeOptions = {}) {
+    this.env = env;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.load();
+  }
+
+  // Returns true if any key was already seen; records all keys either way
+  checkAndRecord(keys: string[], now = Date.now()): boolean {
+    const duplicate = keys.some((key) => {
+      const seenAt = this.entries.get(key);
+      return seenAt !== undefined && now - seenAt < this.ttlMs;
+    });
+
+    for (const key of keys) {
+      // Re-insert so the Map's insertion order stays oldest-first
+      this.entries.delete(key);
+      this.entries.set(key, now);
+    }
+    this.prune(now);
+    this.scheduleSave();
+    return duplicate;
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      const dir = ensureCredentialsDir(this.env);
+      const filePath = path.join(dir, DEDUPE_FILE);
+      const data = { version: 1, entries: Object.fromEntries(this.entries) };
+      writePrivateFile(filePath, JSON.stringify(data));
+    } catch (err) {
+      console.error(`[elyments] failed to save dedupe store: ${String(err)}`);
+    }
+  }
+
+  private load(): void {
+    try {
+      const filePath = path.join(getCredentialsDir(this.env), DEDUPE_FILE);
+      if (!fs.existsSync(filePath)) return;
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as {
+        entries?: Record<string, number>;
+      };
+      const sorted = Object.entries(parsed.entries ?? {})
+        .filter(([, seenAt]) => typeof seenAt === "number")
+        .sort(([, a], [, b]) => a - b);
+      for (const [key, seenAt] of sorted) {
+        this.entries.set(key, seenAt);
+      }
+      this.prune(Date.now());
+    } catch {
+      // Corrupt or unreadable store: start empty
+      this.entries.clear();
+    }
+  }
+
+  private prune(now: number): void {
+    for (const [key, seenAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && now - seenAt < this.ttlMs) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref?.();
+  }
+}
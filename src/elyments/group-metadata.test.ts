@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ElymentsGroupMetadata } from "../types.js";
+import { ElymentsGroupMetadataCache, findGroupMember } from "./group-metadata.js";
+
+const ROOM = "g1@muclight.localhost";
+
+const info = (fields: Partial<ElymentsGroupMetadata> = {}): ElymentsGroupMetadata => ({
+  jid: ROOM,
+  subject: "Standup",
+  members: [
+    { jid: "alice@localhost", affiliation: "owner" },
+    { jid: "bob@localhost", affiliation: "member" },
+  ],
+  version: "v1",
+  updatedAt: Date.now(),
+  ...fields,
+});
+
+describe("ElymentsGroupMetadataCache", () => {
+  let queryInfo: ReturnType<typeof vi.fn<(jid: string) => Promise<ElymentsGroupMetadata>>>;
+  let queryAffiliations: ReturnType<typeof vi.fn>;
+  let cache: ElymentsGroupMetadataCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    queryInfo = vi.fn(async () => info());
+    queryAffiliations = vi.fn(async () => ({
+      version: "v9",
+      members: [{ jid: "carol@localhost", affiliation: "owner" as const }],
+    }));
+    cache = new ElymentsGroupMetadataCache({ queryInfo, queryAffiliations }, 60_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("queries once and serves the cache until the TTL", async () => {
+    cache.seed([{ id: "1", jid: "G1@muclight.localhost", isGroup: true, title: "Team" }]);
+    const [first, second] = await Promise.all([cache.get(ROOM), cache.get(`${ROOM}/alice`)]);
+    expect(first).toBe(second);
+    expect(first).toMatchObject({ name: "Team", subject: "Standup" });
+    expect(queryInfo).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await cache.get(ROOM);
+    expect(queryInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the listed title and backs off after a failed query", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    queryInfo.mockRejectedValue(new Error("timeout"));
+    cache.seed([{ id: "1", jid: ROOM, isGroup: true, title: "Team" }]);
+
+    await expect(cache.get(ROOM)).resolves.toMatchObject({ name: "Team", members: [] });
+    await cache.get(ROOM);
+    expect(queryInfo).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await cache.get(ROOM);
+    expect(queryInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it("applies change notifications in version order", async () => {
+    await cache.get(ROOM);
+    expect(
+      cache.applyChange(ROOM, {
+        kind: "affiliations",
+        prevVersion: "v1",
+        version: "v2",
+        members: [
+          { jid: "bob@localhost", affiliation: "none" },
+          { jid: "dave@localhost", affiliation: "member" },
+        ],
+      }),
+    ).toBe(true);
+    expect(cache.peek(ROOM)?.members.map((member) => member.jid)).toEqual([
+      "alice@localhost",
+      "dave@localhost",
+    ]);
+
+    expect(
+      cache.applyChange(ROOM, { kind: "configuration", version: "v3", name: "Renamed" }),
+    ).toBe(true);
+    expect(cache.peek(ROOM)).toMatchObject({ name: "Renamed", version: "v3" });
+
+    // A gap means we missed something; the caller re-queries
+    expect(
+      cache.applyChange(ROOM, { kind: "configuration", prevVersion: "v7", name: "Lost" }),
+    ).toBe(false);
+    expect(cache.peek(ROOM)?.name).toBe("Renamed");
+  });
+
+  it("refreshes just the members of a cached group", async () => {
+    await cache.get(ROOM);
+    const entry = await cache.refreshMembers(ROOM);
+    expect(entry).toMatchObject({ version: "v9", subject: "Standup" });
+    expect(entry.members).toEqual([{ jid: "carol@localhost", affiliation: "owner" }]);
+    expect(queryInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it("stores and forgets groups", () => {
+    cache.set(info({ jid: "G2@MUCLIGHT.localhost" }));
+    expect(cache.peek("g2@muclight.localhost")).toBeDefined();
+    cache.delete("g2@muclight.localhost");
+    expect(cache.cached("g2@muclight.localhost")).toBeUndefined();
+  });
+});
+
+describe("findGroupMember", () => {
+  it("matches on the user id", () => {
+    const metadata = info();
+    expect(findGroupMember(metadata, "Alice@localhost/phone")).toEqual({
+      jid: "alice@localhost",
+      affiliation: "owner",
+    });
+    expect(findGroupMember(metadata, "carol@localhost")).toBeUndefined();
+    expect(findGroupMember(undefined, "alice@localhost")).toBeUndefined();
+  });
+});
@@ -0,0 +1,148 @@
+import type { ChatSummary, ElymentsGroupMember, ElymentsGroupMetadata } from "../types.js";
+import { applyMucLightAffiliations, type MucLightNotification } from "./muc-light.js";
+
+const DEFAULT_GROUP_METADATA_TTL_MS = 10 * 60_000;
+// After a failed info query, serve what we have for this long before asking again
+const FAILED_QUERY_RETRY_MS = 60_000;
+
+export type GroupMetadataSource = {
+  queryInfo(jid: string): Promise<ElymentsGroupMetadata>;
+  queryAffiliations(jid: string): Promise<{ version?: string; members: ElymentsGroupMember[] }>;
+};
+
+function groupKey(jid: string): string {
+  return (jid.split("/")[0] || jid).toLowerCase();
+}
+
+// Group names, subjects and member lists. Titles from the HTTP group list are
+// known up front; full metadata is fetched over MUC-Light on first use and
+// kept current from the room's change notifications.
+export class ElymentsGroupMetadataCache {
+  private source: GroupMetadataSource;
+  private ttlMs: number;
+  private entries: Map<string, ElymentsGroupMetadata> = new Map();
+  private titles: Map<string, string> = new Map();
+  private failedAt: Map<string, number> = new Map();
+  private inFlight: Map<string, Promise<ElymentsGroupMetadata>> = new Map();
+
+  constructor(source: GroupMetadataSource, ttlMs = DEFAULT_GROUP_METADATA_TTL_MS) {
+    this.source = source;
+    this.ttlMs = ttlMs;
+  }
+
+  // Remember group titles from ElymentsClient.listGroups
+  seed(groups: ChatSummary[]): void {
+    for (const group of groups) {
+      if (!group.isGroup || !group.title) continue;
+      const key = groupKey(group.jid);
+      this.titles.set(key, group.title);
+      const entry = this.entries.get(key);
+      if (entry && !entry.name) entry.name = group.title;
+    }
+  }
+
+  // Cached metadata without querying the server
+  peek(jid: string): ElymentsGroupMetadata | undefined {
+    return this.entries.get(groupKey(jid));
+  }
+
+  // Cached metadata, or just the listed title, without querying the server
+  cached(jid: string): ElymentsGroupMetadata | undefined {
+    const key = groupKey(jid);
+    return this.entries.get(key) ?? (this.titles.has(key) ? this.fallback(key) : undefined);
+  }
+
+  // Metadata for a group, querying the room when missing or older than the TTL.
+  // Query failures fall back to the last known entry or the listed title.
+  async get(jid: string, opts: { refresh?: boolean } = {}): Promise<ElymentsGroupMetadata> {
+    const key = groupKey(jid);
+    const cached = this.entries.get(key);
+    const now = Date.now();
+    if (!opts.refresh && cached && now - cached.updatedAt < this.ttlMs) return cached;
+
+    const failedAt = this.failedAt.get(key);
+    if (!opts.refresh && failedAt && now - failedAt < FAILED_QUERY_RETRY_MS) {
+      return cached ?? this.fallback(key);
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.fetch(key).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    try {
+      return await pending;
+    } catch (err) {
+      this.failedAt.set(key, Date.now());
+      console.warn(`[elyments] group info query failed for ${key}: ${String(err)}`);
+      return cached ?? this.fallback(key);
+    }
+  }
+
+  // Apply a change notification. Returns false when the cached entry missed an
+  // earlier change (version gap) and should be re-queried instead.
+  applyChange(jid: string, change: MucLightNotification): boolean {
+    const entry = this.entries.get(groupKey(jid));
+    if (!entry) return true;
+    if (change.prevVersion && entry.version && change.prevVersion !== entry.version) return false;
+
+    if (change.kind === "configuration") {
+      if (change.name !== undefined) entry.name = change.name;
+      if (change.subject !== undefined) entry.subject = change.subject;
+    } else {
+      entry.members = applyMucLightAffiliations(entry.members, change.members);
+    }
+    if (change.version) entry.version = change.version;
+    entry.updatedAt = Date.now();
+    return true;
+  }
+
+  // Re-read only the member list (cheaper than a full info query)
+  async refreshMembers(jid: string): Promise<ElymentsGroupMetadata> {
+    const key = groupKey(jid);
+    const entry = this.entries.get(key);
+    if (!entry) return await this.get(key, { refresh: true });
+
+    const { version, members } = await this.source.queryAffiliations(key);
+    entry.members = members;
+    if (version) entry.version = version;
+    entry.updatedAt = Date.now();
+    return entry;
+  }
+
+  // Store metadata we already know (e.g. a group we just created)
+  set(metadata: ElymentsGroupMetadata): void {
+    const key = groupKey(metadata.jid);
+    this.entries.set(key, { ...metadata, jid: key });
+    this.failedAt.delete(key);
+  }
+
+  // Forget a group (e.g. after we left it)
+  delete(jid: string): void {
+    const key = groupKey(jid);
+    this.entries.delete(key);
+    this.failedAt.delete(key);
+  }
+
+  private async fetch(key: string): Promise<ElymentsGroupMetadata> {
+    const metadata = await this.source.queryInfo(key);
+    metadata.name ??= this.titles.get(key);
+    this.entries.set(key, metadata);
+    this.failedAt.delete(key);
+    return metadata;
+  }
+
+  private fallback(key: string): ElymentsGroupMetadata {
+    return { jid: key, name: this.titles.get(key), members: [], updatedAt: Date.now() };
+  }
+}
+
+// Look up a member by JID or bare user id
+export function findGroupMember(
+  metadata: ElymentsGroupMetadata | undefined,
+  userJid: string,
+): ElymentsGroupMember | undefined {
+  const userId = groupKey(userJid).split("@")[0];
+  return metadata?.members.find((member) => member.jid.split("@")[0] === userId);
+}
@@ -0,0 +1,100 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { ElymentsLoginError, OtpInbox, shouldUseHeadlessLogin } from "./headless-login.js";
+
+// A port nothing listens on right now
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+// POST to the inbox, retrying until its server is listening
+async function post(port: number, body: string): Promise<number> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/otp`, { method: "POST", body });
+      return res.status;
+    } catch (err) {
+      if (attempt >= 20) throw err;
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+  }
+}
+
+describe("OtpInbox", () => {
+  const inboxes: OtpInbox[] = [];
+  const dirs: string[] = [];
+
+  afterEach(async () => {
+    for (const inbox of inboxes.splice(0)) await inbox.close();
+    for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (params: ConstructorParameters<typeof OtpInbox>[0]) => {
+    const inbox = new OtpInbox(params);
+    inboxes.push(inbox);
+    return inbox;
+  };
+
+  it("serves a fixed code", async () => {
+    const inbox = open({ otp: " 123456 ", log: () => {} });
+    expect(inbox.isFixed()).toBe(true);
+    await expect(inbox.next(Date.now() + 1_000)).resolves.toBe("123456");
+  });
+
+  it("accepts plain-text and JSON POST bodies", async () => {
+    const port = await freePort();
+    const inbox = open({ otpPort: port, log: () => {} });
+
+    expect(await post(port, "123456\n")).toBe(202);
+    await expect(inbox.next(Date.now() + 1_000)).resolves.toBe("123456");
+
+    expect(await post(port, JSON.stringify({ otp: "654321" }))).toBe(202);
+    await expect(inbox.next(Date.now() + 1_000)).resolves.toBe("654321");
+
+    expect(await post(port, JSON.stringify({ code: 111222 }))).toBe(202);
+    await expect(inbox.next(Date.now() + 1_000)).resolves.toBe("111222");
+  });
+
+  it("rejects malformed codes", async () => {
+    const port = await freePort();
+    const logs: string[] = [];
+    open({ otpPort: port, log: (message) => logs.push(message) });
+
+    expect(await post(port, "12ab56")).toBe(400);
+    expect(await post(port, JSON.stringify({ token: "123456" }))).toBe(400);
+    expect(logs.some((line) => line.includes("malformed OTP"))).toBe(true);
+  });
+
+  it("picks up a code from the drop file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-otp-file-"));
+    dirs.push(dir);
+    const otpFile = path.join(dir, "otp");
+    const inbox = open({ otpFile, log: () => {} });
+
+    fs.writeFileSync(otpFile, "987654\n");
+    await expect(inbox.next(Date.now() + 5_000)).resolves.toBe("987654");
+    expect(fs.existsSync(otpFile)).toBe(false);
+  });
+
+  it("times out when no code arrives", async () => {
+    const inbox = open({ otpPort: await freePort(), log: () => {} });
+    await expect(inbox.next(Date.now() + 50)).rejects.toBeInstanceOf(ElymentsLoginError);
+  });
+});
+
+describe("shouldUseHeadlessLogin", () => {
+  it("honours an explicit flag", () => {
+    expect(shouldUseHeadlessLogin({ ELYMENTS_HEADLESS_LOGIN: "1" })).toBe(true);
+    expect(shouldUseHeadlessLogin({ ELYMENTS_HEADLESS_LOGIN: "0", ELYMENTS_OTP: "123456" })).toBe(
+      false,
+    );
+  });
+});
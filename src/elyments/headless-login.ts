@@ -0,0 +1,354 @@
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as path from "node:path";
+import { describeOtpFailure, requestOtp, verifyOtp, type OtpFailureReason } from "./auth.js";
+import { ensureCredentialsDir, saveElymentsProfile } from "./credentials.js";
+import type { ElymentsSession } from "../types.js";
+
+// Env knobs for scripted logins (install scripts, containers, CI)
+export const ELYMENTS_HEADLESS_ENV = "ELYMENTS_HEADLESS_LOGIN";
+export const ELYMENTS_PHONE_ENV = "ELYMENTS_PHONE_NUMBER";
+export const ELYMENTS_COUNTRY_CODE_ENV = "ELYMENTS_COUNTRY_CODE";
+export const ELYMENTS_OTP_ENV = "ELYMENTS_OTP";
+export const ELYMENTS_OTP_FILE_ENV = "ELYMENTS_OTP_FILE";
+export const ELYMENTS_OTP_PORT_ENV = "ELYMENTS_OTP_PORT";
+export const ELYMENTS_OTP_TIMEOUT_ENV = "ELYMENTS_OTP_TIMEOUT_MS";
+export const ELYMENTS_OTP_REQUEST_ONLY_ENV = "ELYMENTS_OTP_REQUEST_ONLY";
+
+// Process exit codes, so wrapper scripts can react to each failure differently
+export const ELYMENTS_LOGIN_EXIT_CODES = {
+  config: 2,
+  wrongOtp: 3,
+  rateLimited: 4,
+  network: 5,
+  timeout: 6,
+  blocked: 7,
+} as const;
+
+export type ElymentsLoginFailure = keyof typeof ELYMENTS_LOGIN_EXIT_CODES;
+
+export class ElymentsLoginError extends Error {
+  readonly failure: ElymentsLoginFailure;
+  readonly exitCode: number;
+
+  constructor(failure: ElymentsLoginFailure, message: string) {
+    super(message);
+    this.name = "ElymentsLoginError";
+    this.failure = failure;
+    this.exitCode = ELYMENTS_LOGIN_EXIT_CODES[failure];
+  }
+}
+
+export type ElymentsHeadlessLoginOptions = {
+  countryCode?: string;
+  phoneNumber?: string;
+  senderName?: string;
+  // Only send the OTP; a later run verifies it with `otp`
+  requestOnly?: boolean;
+  // OTP sources: a code from an earlier request (no new OTP is sent), or else a
+  // drop file plus an optional HTTP endpoint fed while this run waits
+  otp?: string;
+  otpFile?: string;
+  otpPort?: number;
+  // How long the OTP stays valid after it's sent
+  otpTimeoutMs?: number;
+  maxAttempts?: number;
+  env?: NodeJS.ProcessEnv;
+  log?: (message: string) => void;
+};
+
+const DEFAULT_OTP_TIMEOUT_MS = 5 * 60_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const OTP_FILE_POLL_MS = 1_000;
+const NETWORK_RETRY_DELAY_MS = 5_000;
+const OTP_PATTERN = /^\d{4,8}$/;
+
+function isTruthyEnv(value: string | undefined): boolean {
+  const normalized = value?.trim().toLowerCase();
+  return normalized === "1" || normalized === "true";
+}
+
+// Headless mode is opted into explicitly, or implied by a non-interactive stdin
+// when an OTP source (code, drop file or loopback port) is configured
+export function shouldUseHeadlessLogin(env: NodeJS.ProcessEnv = process.env): boolean {
+  const flag = env[ELYMENTS_HEADLESS_ENV]?.trim().toLowerCase();
+  if (flag === "0" || flag === "false") return false;
+  if (isTruthyEnv(flag)) return true;
+  if (process.stdin.isTTY) return false;
+  return [ELYMENTS_OTP_ENV, ELYMENTS_OTP_FILE_ENV, ELYMENTS_OTP_PORT_ENV].some((name) =>
+    Boolean(env[name]?.trim()),
+  );
+}
+
+// Fill unset options from the ELYMENTS_* env vars
+export function resolveHeadlessLoginOptions(
+  options: ElymentsHeadlessLoginOptions,
+): ElymentsHeadlessLoginOptions {
+  const env = options.env ?? process.env;
+  const port = Number(env[ELYMENTS_OTP_PORT_ENV]);
+  const timeoutMs = Number(env[ELYMENTS_OTP_TIMEOUT_ENV]);
+  return {
+    ...options,
+    countryCode: options.countryCode || env[ELYMENTS_COUNTRY_CODE_ENV]?.trim(),
+    phoneNumber: options.phoneNumber || env[ELYMENTS_PHONE_ENV]?.trim(),
+    senderName: options.senderName || env.ELYMENTS_SENDER_NAME?.trim(),
+    requestOnly: options.requestOnly ?? isTruthyEnv(env[ELYMENTS_OTP_REQUEST_ONLY_ENV]),
+    otp: options.otp ?? (env[ELYMENTS_OTP_ENV]?.trim() || undefined),
+    otpFile: options.otpFile ?? env[ELYMENTS_OTP_FILE_ENV]?.trim(),
+    otpPort: options.otpPort ?? (Number.isInteger(port) && port > 0 ? port : undefined),
+    otpTimeoutMs:
+      options.otpTimeoutMs ?? (Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined),
+  };
+}
+
+// Log in without prompts: request an OTP, wait for it from env/file/HTTP and
+// verify it, retrying wrong codes and network errors while the OTP is valid.
+// Resolves null in requestOnly mode.
+export async function runElymentsHeadlessLogin(
+  options: ElymentsHeadlessLoginOptions,
+): Promise<ElymentsSession | null> {
+  const resolved = resolveHeadlessLoginOptions(options);
+  const env = resolved.env ?? process.env;
+  const log = resolved.log ?? (() => {});
+  const countryCode = (resolved.countryCode || "91").replace(/^\+/, "");
+  const phoneNumber = resolved.phoneNumber;
+  if (!phoneNumber) {
+    throw new ElymentsLoginError(
+      "config",
+      `Phone number is required (channels.elyments.phoneNumber or ${ELYMENTS_PHONE_ENV})`,
+    );
+  }
+
+  // Default drop location lives next to the credentials it produces
+  const otpFile = resolved.otpFile || path.join(ensureCredentialsDir(env), "otp");
+  const deadline = Date.now() + (resolved.otpTimeoutMs ?? DEFAULT_OTP_TIMEOUT_MS);
+  const maxAttempts = resolved.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  if (resolved.otp && !OTP_PATTERN.test(resolved.otp)) {
+    throw new ElymentsLoginError("config", `${ELYMENTS_OTP_ENV} must be 4-8 digits`);
+  }
+
+  // With a known code the OTP was requested by an earlier run; a new one would void it
+  if (!resolved.otp) {
+    log(`Requesting OTP for +${countryCode} ${phoneNumber}...`);
+    const otpResult = await requestOtp({ countryCode, phoneNumber }, env);
+    if (!otpResult.success) {
+      throw loginErrorFor(otpResult.reason, describeOtpFailure(otpResult));
+    }
+    if (resolved.requestOnly) {
+      log(`OTP sent. Re-run with ${ELYMENTS_OTP_ENV}=<code> to finish logging in`);
+      return null;
+    }
+  }
+
+  const inbox = resolved.otp
+    ? new OtpInbox({ otp: resolved.otp, log })
+    : new OtpInbox({ otpFile, otpPort: resolved.otpPort, log });
+  log(`Waiting for the OTP via ${inbox.describeSources()}`);
+  try {
+    let attempts = 0;
+    let otp = await inbox.next(deadline);
+    for (;;) {
+      const verifyResult = await verifyOtp({ countryCode, phoneNumber, otp }, env);
+      if (verifyResult.success && verifyResult.session) {
+        if (resolved.senderName) {
+          saveElymentsProfile(
+            {
+              senderName: resolved.senderName,
+              userId: verifyResult.session.userId,
+              updatedAt: Date.now(),
+            },
+            env,
+          );
+        }
+        log(`Logged in as ${verifyResult.session.userId}`);
+        return verifyResult.session;
+      }
+
+      const error = verifyResult.error || "OTP verification failed";
+      if (verifyResult.reason === "network") {
+        // Same code, once the connection is back
+        if (Date.now() + NETWORK_RETRY_DELAY_MS >= deadline) {
+          throw new ElymentsLoginError("network", error);
+        }
+        log(`Verification failed (${error}); retrying`);
+        await new Promise((resolve) => setTimeout(resolve, NETWORK_RETRY_DELAY_MS));
+        continue;
+      }
+      if (verifyResult.reason !== "invalid-otp") {
+        throw loginErrorFor(verifyResult.reason, describeOtpFailure(verifyResult));
+      }
+
+      attempts += 1;
+      // A fixed code can't change, so there's nothing to wait for
+      if (attempts >= maxAttempts || inbox.isFixed()) {
+        throw new ElymentsLoginError("wrongOtp", `${error} (${attempts} attempt(s))`);
+      }
+      log(`${error}. Waiting for another OTP (${maxAttempts - attempts} attempt(s) left)`);
+      otp = await inbox.next(deadline);
+    }
+  } finally {
+    await inbox.close();
+  }
+}
+
+function loginErrorFor(reason: OtpFailureReason | undefined, message: string): ElymentsLoginError {
+  switch (reason) {
+    case "too-many-attempts":
+    case "cooldown":
+      return new ElymentsLoginError("rateLimited", message);
+    case "blocked":
+      return new ElymentsLoginError("blocked", message);
+    case "network":
+      return new ElymentsLoginError("network", message);
+    case "invalid-otp":
+      return new ElymentsLoginError("wrongOtp", message);
+    default:
+      return new ElymentsLoginError("config", message);
+  }
+}
+
+// Collects OTPs from a fixed code, or from a drop file and a local HTTP endpoint
+export class OtpInbox {
+  private pending: string[] = [];
+  private waiter: (() => void) | null = null;
+  private server: http.Server | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private otpFile?: string;
+  private otpPort?: number;
+  private fixed: boolean;
+  private log: (message: string) => void;
+
+  constructor(params: {
+    otp?: string;
+    otpFile?: string;
+    otpPort?: number;
+    log: (message: string) => void;
+  }) {
+    this.log = params.log;
+    this.fixed = Boolean(params.otp);
+    if (params.otp) {
+      this.push(params.otp, ELYMENTS_OTP_ENV);
+      return;
+    }
+    if (params.otpFile) {
+      this.otpFile = params.otpFile;
+      fs.mkdirSync(path.dirname(this.otpFile), { recursive: true, mode: 0o700 });
+      // A code left over from an earlier run was never meant for this OTP
+      fs.rmSync(this.otpFile, { force: true });
+      this.pollTimer = setInterval(() => this.pollFile(), OTP_FILE_POLL_MS);
+    }
+    if (params.otpPort) {
+      this.otpPort = params.otpPort;
+      this.listen(params.otpPort);
+    }
+  }
+
+  isFixed(): boolean {
+    return this.fixed;
+  }
+
+  describeSources(): string {
+    if (this.fixed) return ELYMENTS_OTP_ENV;
+    return [
+      this.otpFile ? `file ${this.otpFile}` : null,
+      this.otpPort ? `http://127.0.0.1:${this.otpPort}/otp` : null,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  // Next code, or a timeout error once the OTP window closes
+  async next(deadline: number): Promise<string> {
+    while (this.pending.length === 0) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new ElymentsLoginError("timeout", "Timed out waiting for the OTP");
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remainingMs);
+        this.waiter = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.waiter = null;
+    }
+    return this.pending.shift() as string;
+  }
+
+  async close(): Promise<void> {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    const server = this.server;
+    this.server = null;
+    if (server) await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private push(raw: string, source: string): boolean {
+    const otp = raw.trim();
+    if (!OTP_PATTERN.test(otp)) {
+      this.log(`Ignoring malformed OTP from ${source}`);
+      return false;
+    }
+    this.pending.push(otp);
+    this.waiter?.();
+    return true;
+  }
+
+  private pollFile(): void {
+    if (!this.otpFile) return;
+    try {
+      if (!fs.existsSync(this.otpFile)) return;
+      const content = fs.readFileSync(this.otpFile, "utf-8");
+      fs.rmSync(this.otpFile, { force: true });
+      this.push(content, this.otpFile);
+    } catch {
+      // Half-written file; pick it up on the next poll
+    }
+  }
+
+  // POST /otp with the code as the body (plain or {"otp": "..."}), or GET /otp?code=...
+  private listen(port: number): void {
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      if (url.pathname !== "/otp") {
+        res.writeHead(404).end();
+        return;
+      }
+      const queryCode = url.searchParams.get("code");
+      if (req.method === "GET" && queryCode) {
+        res.writeHead(this.push(queryCode, "http") ? 202 : 400).end();
+        return;
+      }
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+      let body = "";
+      req.setEncoding("utf-8");
+      req.on("data", (chunk: string) => {
+        body += chunk;
+        if (body.length > 1024) req.destroy();
+      });
+      req.on("end", () => {
+        // A bare "123456" is valid JSON too (a number), so only objects are unwrapped
+        let code = body;
+        try {
+          const parsed: unknown = JSON.parse(body);
+          if (parsed && typeof parsed === "object") {
+            const fields = parsed as { otp?: unknown; code?: unknown };
+            code = String(fields.otp ?? fields.code ?? "");
+          }
+        } catch {
+          // Plain-text body
+        }
+        res.writeHead(this.push(code, "http") ? 202 : 400).end();
+      });
+    });
+    server.on("error", (err) => this.log(`OTP endpoint unavailable: ${String(err)}`));
+    // Loopback only: the code is a login credential
+    server.listen(port, "127.0.0.1");
+    this.server = server;
+  }
+}
@@ -1,10 +1,109 @@
 // Re-export main components
 export { ElymentsClient, getSharedElymentsClient, setSharedElymentsClient } from "./client.js";
-export { ElymentsXmppClient, isElymentsGroup, extractUserId, formatDirectJid, formatGroupJid } from "./xmpp.js";
-export type { XmppMessageEvent, XmppClientEvents } from "./xmpp.js";
+export type { ElymentsClientEvents, ElymentsClientOptions } from "./client.js";
+export {
+  ElymentsXmppClient,
+  XmppStanzaError,
+  XmppTimeoutError,
+  XmppTransportError,
+  parseStanzaError,
+  isElymentsGroup,
+  extractUserId,
+  bareJid,
+  formatDirectJid,
+  formatGroupJid,
+} from "./xmpp.js";
+export type {
+  XmppMessageEvent,
+  XmppOutgoingEvent,
+  XmppReactionEvent,
+  XmppSentEvent,
+  XmppReflectedEvent,
+  XmppReceiptEvent,
+  XmppMessageErrorEvent,
+  XmppArchivePage,
+  XmppGroupChangeEvent,
+  XmppClientEvents,
+  XmppElement,
+  ElymentsXmppClientOptions,
+} from "./xmpp.js";
+
+// Roster
+export { parseRosterItems, applyRosterItems, ROSTER_NS } from "./roster.js";
+
+// Group metadata (MUC-Light)
+export {
+  MUC_LIGHT_INFO_NS,
+  MUC_LIGHT_AFFILIATIONS_NS,
+  MUC_LIGHT_CONFIGURATION_NS,
+  MUC_LIGHT_CREATE_NS,
+  parseMucLightInfo,
+  parseMucLightUsers,
+  parseMucLightNotification,
+  applyMucLightAffiliations,
+  classifyMembershipChanges,
+} from "./muc-light.js";
+export type { MucLightNotification } from "./muc-light.js";
+export { ElymentsGroupMetadataCache, findGroupMember } from "./group-metadata.js";
+export type { GroupMetadataSource } from "./group-metadata.js";
+
+// Token refresh
+export { ElymentsTokenRefresher, resolveSessionExpiry } from "./token-refresh.js";
+export type { TokenRefreshEvents } from "./token-refresh.js";
+
+// Reactions
+export { REACTIONS_NS, RecentMessageIds, parseReactionsElement } from "./reactions.js";
+export type { ParsedReactions } from "./reactions.js";
+
+// Outbound send queue
+export { ElymentsSendQueue, SendQueueError, DEFAULT_SEND_RETRY_BACKOFF } from "./send-queue.js";
+export type { ElymentsSendQueueOptions, SendQueueEvents } from "./send-queue.js";
+
+// Outbound rate limiting
+export { ElymentsRateLimiter, TokenBucket, DEFAULT_CHUNK_DELAY_MS } from "./rate-limit.js";
+export type { RateLimitHit } from "./rate-limit.js";
+
+// Delivery receipts and read markers
+export { RECEIPTS_NS, CHAT_MARKERS_NS, DeliveryTracker, parseReceipt } from "./receipts.js";
+export type {
+  DeliveryState,
+  DeliveryStats,
+  ParsedReceipt,
+  TrackedDelivery,
+} from "./receipts.js";
+
+// Sync state and missed message backfill
+export {
+  ElymentsSyncStateStore,
+  loadElymentsSyncState,
+  saveElymentsSyncState,
+} from "./sync-state.js";
+export type { ElymentsSyncState, ElymentsChatCursor } from "./sync-state.js";
+export { collectMissedMessages } from "./backfill.js";
+
+// Inbound de-duplication
+export { ElymentsDedupeStore, buildDedupeKeys } from "./dedupe.js";
+export type { ElymentsDedupeOptions } from "./dedupe.js";
+
+// Backoff
+export { computeBackoffDelay, resolveBackoffPolicy, DEFAULT_RECONNECT_BACKOFF } from "./backoff.js";
+export type { BackoffPolicy } from "./backoff.js";
 
 // Authentication
 export { requestOtp, verifyOtp, refreshSession, getValidSession, withAutoRefresh } from "./auth.js";
+export { classifyOtpMessage, describeOtpFailure } from "./auth.js";
+export type { OtpFailureReason, OtpResult } from "./auth.js";
+export { getOtpCooldownMs, recordOtpRequest, recordOtpLockout, formatCooldown } from "./otp-throttle.js";
+
+// Headless login
+export {
+  runElymentsHeadlessLogin,
+  resolveHeadlessLoginOptions,
+  shouldUseHeadlessLogin,
+  ElymentsLoginError,
+  ELYMENTS_LOGIN_EXIT_CODES,
+} from "./headless-login.js";
+export type { ElymentsHeadlessLoginOptions, ElymentsLoginFailure } from "./headless-login.js";
 
 // Credentials
 export {
@@ -21,6 +120,14 @@ export {
   clearElymentsCredentials,
   isSessionValid,
   isTokenExpiring,
+  getTokenExpiry,
+  withCredentialsLock,
+  ElymentsCredentialsKeyError,
+  elymentsAccountEnv,
+  getCredentialsDir,
+  ELYMENTS_ACCOUNT_ENV,
+  ELYMENTS_CREDENTIALS_KEY_ENV,
+  ELYMENTS_CREDENTIALS_PASSPHRASE_ENV,
 } from "./credentials.js";
 
 // Accounts
@@ -28,8 +135,11 @@ export {
   listElymentsAccountIds,
   resolveDefaultElymentsAccountId,
   resolveElymentsAccount,
+  resolveElymentsAccountKey,
   isElymentsEnabled,
   getElymentsSenderName,
+  rememberElymentsPairingAccount,
+  resolveElymentsPairingAccount,
 } from "./accounts.js";
 export type { ResolvedElymentsAccount } from "./accounts.js";
 
@@ -37,11 +147,54 @@ export type { ResolvedElymentsAccount } from "./accounts.js";
 export {
   sendMessageElyments,
   sendTypingElyments,
+  sendReactionElyments,
+  createGroupElyments,
+  updateGroupMembersElyments,
+  renameGroupElyments,
   normalizeElymentsTarget,
   looksLikeElymentsTarget,
 } from "./send.js";
 export type { SendMessageResult } from "./send.js";
 
+// Message body codec
+export {
+  ELYMENTS_BODY_VERSION,
+  encodeElymentsBody,
+  decodeElymentsBody,
+  validateElymentsBody,
+  describeElymentsBody,
+  getElymentsBodyText,
+  encodeTextBody,
+  encodeReplyBody,
+  encodeMediaBody,
+  decodeMediaElement,
+  decodeMessageStanza,
+  generateBodyId,
+} from "./codec.js";
+export type {
+  ElymentsBody,
+  ElymentsTextBody,
+  ElymentsMediaBody,
+  ElymentsReplyBody,
+  ElymentsLocationBody,
+  ElymentsContactBody,
+  ElymentsSystemBody,
+  ElymentsUnknownBody,
+  ElymentsQuote,
+  DecodedElymentsBody,
+} from "./codec.js";
+
+// Media
+export {
+  downloadElymentsMedia,
+  pruneElymentsMedia,
+  resolveMediaType,
+  resolveMimeType,
+  resolveExtension,
+  readImageDimensions,
+} from "./media.js";
+export type { DownloadedMedia } from "./media.js";
+
 // Monitor
 export { monitorElymentsProvider } from "./monitor.js";
 export type { MonitorElymentsOpts } from "./monitor.js";
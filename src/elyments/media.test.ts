@@ -0,0 +1,115 @@
+import * as crypto from "node:crypto";
+import * as dns from "node:dns";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { downloadElymentsMedia } from "./media.js";
+
+const BLOB = "https://media.blob.core.windows.net/chat/photo";
+
+describe("downloadElymentsMedia", () => {
+  let home: string;
+  let addresses: string[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-media-"));
+    addresses = ["20.60.1.1"];
+    vi.spyOn(dns.promises, "lookup").mockImplementation((async () =>
+      addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 }))) as never);
+    fetchMock = vi.fn(async () => new Response("image-bytes", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  const download = (url: string, extra: { maxBytes?: number } = {}) =>
+    downloadElymentsMedia({
+      media: { id: "m1", type: "image", url, mimeType: "image/png" },
+      env: { HOME: home },
+      ...extra,
+    });
+
+  it("saves media from an allowed host owner-only", async () => {
+    const result = await download(BLOB);
+    expect(result).toMatchObject({ contentType: "image/png", size: 11 });
+    expect(fs.readFileSync(result.path, "utf-8")).toBe("image-bytes");
+    expect(result.path.startsWith(path.join(home, ".clawdbot/media/elyments"))).toBe(true);
+    if (process.platform !== "win32") {
+      expect(fs.statSync(result.path).mode & 0o777).toBe(0o600);
+    }
+    // Blob storage URLs are pre-signed and never get our bearer token
+    expect(fetchMock).toHaveBeenCalledWith(
+      new URL(BLOB),
+      expect.objectContaining({ headers: {}, redirect: "manual" }),
+    );
+  });
+
+  it.each([
+    ["plain http", "http://media.blob.core.windows.net/chat/photo"],
+    ["an unknown host", "https://example.com/photo"],
+    ["a look-alike host", "https://elyments.com.example.com/photo"],
+    ["an IP literal", "https://127.0.0.1/photo"],
+  ])("refuses %s", async (_label, url) => {
+    await expect(download(url)).rejects.toThrow(/Refusing/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each(["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1"])(
+    "refuses a host resolving to %s",
+    async (address) => {
+      addresses = ["20.60.1.1", address];
+      await expect(download(BLOB)).rejects.toThrow(/private address/);
+      expect(fetchMock).not.toHaveBeenCalled();
+    },
+  );
+
+  it.each(["::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1"])(
+    "refuses a host resolving to IPv6 %s",
+    async (address) => {
+      addresses = [address];
+      await expect(download(BLOB)).rejects.toThrow(/private address/);
+    },
+  );
+
+  it("checks every redirect hop", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 302, headers: { location: "https://example.com/x" } }),
+    );
+    await expect(download(BLOB)).rejects.toThrow(/Refusing to download media from example.com/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops after too many redirects", async () => {
+    fetchMock.mockImplementation(
+      async () => new Response(null, { status: 302, headers: { location: BLOB } }),
+    );
+    await expect(download(BLOB)).rejects.toThrow("Too many media redirects");
+  });
+
+  it("enforces the size limit", async () => {
+    await expect(download(BLOB, { maxBytes: 5 })).rejects.toThrow(/Media too large/);
+  });
+
+  it("decrypts aesgcm:// media", async () => {
+    const key = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const sealed = Buffer.concat([
+      cipher.update("secret-bytes"),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+    fetchMock.mockResolvedValueOnce(new Response(sealed, { status: 200 }));
+
+    const fragment = iv.toString("hex") + key.toString("hex");
+    const result = await download(`aesgcm://media.blob.core.windows.net/chat/photo#${fragment}`);
+    expect(fs.readFileSync(result.path, "utf-8")).toBe("secret-bytes");
+  });
+});
@@ -0,0 +1,349 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import * as crypto from "node:crypto";
+import * as dns from "node:dns";
+import * as net from "node:net";
+import type { ElymentsMediaInfo } from "../types.js";
+import { withAutoRefresh } from "./auth.js";
+
+const MEDIA_DIR = ".clawdbot/media/elyments";
+const DEFAULT_MAX_INBOUND_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MEDIA_MAX_AGE_MS = 7 * 24 * 60 * 60_000;
+const DEFAULT_MEDIA_MAX_TOTAL_BYTES = 500 * 1024 * 1024;
+const MAX_MEDIA_REDIRECTS = 3;
+// Attachments are only fetched from Elyments and its Azure blob storage
+const MEDIA_HOST_SUFFIXES = [".elyments.com", ".blob.core.windows.net"];
+
+// Extension -> MIME type
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  txt: "text/plain",
+};
+
+// Resolve media type from extension
+export function resolveMediaType(ext: string): ElymentsMediaInfo["type"] {
+  switch (ext) {
+    case "jpg":
+    case "jpeg":
+    case "png":
+    case "gif":
+    case "webp":
+      return "image";
+    case "mp4":
+    case "webm":
+    case "mov":
+    case "avi":
+      return "video";
+    case "mp3":
+    case "ogg":
+    case "wav":
+    case "m4a":
+    case "aac":
+      return "audio";
+    default:
+      return "document";
+  }
+}
+
+// Resolve MIME type from extension
+export function resolveMimeType(ext: string): string {
+  return MIME_TYPES[ext] || "application/octet-stream";
+}
+
+// Resolve extension from MIME type (first match wins)
+export function resolveExtension(mimeType: string): string | undefined {
+  const normalized = mimeType.split(";")[0]?.trim().toLowerCase();
+  return Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === normalized);
+}
+
+// Read pixel dimensions from PNG, GIF, JPEG or WebP headers
+export function readImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 24) return null;
+
+  // PNG: IHDR follows the 8-byte signature
+  if (buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size, little endian
+  if (buffer.toString("ascii", 0, 3) === "GIF") {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  // WebP: VP8X extended, VP8 lossy or VP8L lossless
+  if (buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WEBP") {
+    const chunk = buffer.toString("ascii", 12, 16);
+    if (chunk === "VP8X" && buffer.length >= 30) {
+      return { width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+    }
+    if (chunk === "VP8 " && buffer.length >= 30) {
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L" && buffer.length >= 25) {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    return null;
+  }
+
+  // JPEG: scan segments for a start-of-frame marker
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) return null;
+      const marker = buffer[offset + 1];
+      const length = buffer.readUInt16BE(offset + 2);
+      const isSof = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isSof) {
+        return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+export type DownloadedMedia = {
+  path: string;
+  contentType: string;
+  size: number;
+};
+
+function getMediaDir(env: NodeJS.ProcessEnv = process.env): string {
+  const home = env.HOME || os.homedir();
+  return path.join(home, MEDIA_DIR);
+}
+
+function isAllowedMediaHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === "elyments.com" || MEDIA_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return (
+      normalized === "::" ||
+      normalized === "::1" ||
+      /^f[cd]/.test(normalized) ||
+      /^fe[89ab]/.test(normalized) ||
+      normalized.startsWith("ff")
+    );
+  }
+  const [a, b] = address.split(".").map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+// Reject anything but https to a known media host that resolves to public addresses
+async function assertSafeMediaUrl(url: URL): Promise<void> {
+  if (url.protocol !== "https:") {
+    throw new Error(`Refusing to download media over ${url.protocol}`);
+  }
+  if (!isAllowedMediaHost(url.hostname) || net.isIP(url.hostname)) {
+    throw new Error(`Refusing to download media from ${url.hostname}`);
+  }
+  const addresses = await dns.promises.lookup(url.hostname, { all: true });
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new Error(`Refusing to download media from ${url.hostname} (private address)`);
+  }
+}
+
+// Elyments-hosted URLs need the bearer token; blob storage SAS URLs must not get it
+function needsAuth(url: URL): boolean {
+  return url.hostname === "elyments.com" || url.hostname.endsWith(".elyments.com");
+}
+
+// XEP-0454 style aesgcm:// URL: fragment holds hex IV (12 bytes) + key (32 bytes)
+function parseAesGcmUrl(raw: string): { url: string; iv: Buffer; key: Buffer } | null {
+  if (!raw.startsWith("aesgcm://")) return null;
+  const [base, fragment = ""] = raw.slice("aesgcm://".length).split("#");
+  if (!/^[0-9a-f]{88}$/i.test(fragment)) {
+    throw new Error("Encrypted media URL has an invalid key fragment");
+  }
+  return {
+    url: `https://${base}`,
+    iv: Buffer.from(fragment.slice(0, 24), "hex"),
+    key: Buffer.from(fragment.slice(24), "hex"),
+  };
+}
+
+function decryptAesGcm(data: Buffer, key: Buffer, iv: Buffer): Buffer {
+  // Auth tag is appended to the ciphertext
+  const tag = data.subarray(data.length - 16);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]);
+}
+
+// Read a response body, aborting once it exceeds maxBytes
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length") ?? "");
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    throw new Error(`Media too large (${declared} bytes, limit ${maxBytes})`);
+  }
+  if (!response.body) {
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new Error(`Media too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Download (and decrypt, if needed) an inbound attachment to the local media dir
+export async function downloadElymentsMedia(params: {
+  media: ElymentsMediaInfo;
+  maxBytes?: number;
+  // Retention for the local media dir (defaults: 7 days, 500 MB)
+  maxAgeMs?: number;
+  maxTotalBytes?: number;
+  env?: NodeJS.ProcessEnv;
+}): Promise<DownloadedMedia> {
+  const { media, env } = params;
+  const maxBytes = params.maxBytes ?? DEFAULT_MAX_INBOUND_BYTES;
+  if (media.size && media.size > maxBytes) {
+    throw new Error(`Media too large (${media.size} bytes, limit ${maxBytes})`);
+  }
+
+  const encrypted = parseAesGcmUrl(media.url);
+  const url = new URL(encrypted?.url ?? media.url);
+  await assertSafeMediaUrl(url);
+
+  // Redirects are followed by hand so every hop passes the same host checks
+  const fetchMedia = async (accessToken?: string) => {
+    let target = url;
+    for (let hop = 0; ; hop++) {
+      const auth = accessToken && needsAuth(target);
+      const response = await fetch(target, {
+        headers: auth ? { Authorization: `Bearer ${accessToken}` } : {},
+        redirect: "manual",
+      });
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (hop >= MAX_MEDIA_REDIRECTS) throw new Error("Too many media redirects");
+        target = new URL(location, target);
+        await assertSafeMediaUrl(target);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to download media: ${response.status}`);
+      }
+      return response;
+    }
+  };
+
+  const response = needsAuth(url)
+    ? await withAutoRefresh((session) => fetchMedia(session.accessToken), env)
+    : await fetchMedia();
+
+  let buffer = await readLimited(response, maxBytes);
+  if (encrypted) {
+    buffer = decryptAesGcm(buffer, encrypted.key, encrypted.iv);
+  }
+
+  const headerType = response.headers.get("content-type")?.split(";")[0]?.trim();
+  const nameExt = media.name ? path.extname(media.name).toLowerCase().slice(1) : "";
+  const contentType =
+    media.mimeType ||
+    (nameExt ? MIME_TYPES[nameExt] : undefined) ||
+    (headerType && headerType !== "application/octet-stream" ? headerType : undefined) ||
+    "application/octet-stream";
+  const ext = nameExt || resolveExtension(contentType) || "bin";
+
+  // Decrypted attachments stay private to this user
+  const dir = getMediaDir(env);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  fs.chmodSync(dir, 0o700);
+  const safeId = (media.id || crypto.randomUUID()).replace(/[^a-zA-Z0-9_-]/g, "").slice(0, 64);
+  const filePath = path.join(dir, `${Date.now()}-${safeId}.${ext}`);
+  fs.writeFileSync(filePath, buffer, { mode: 0o600 });
+
+  pruneElymentsMedia({ maxAgeMs: params.maxAgeMs, maxTotalBytes: params.maxTotalBytes, env });
+  return { path: filePath, contentType, size: buffer.length };
+}
+
+// Delete downloaded attachments older than maxAgeMs, then the oldest ones
+// until the directory fits in maxTotalBytes. Returns the number removed.
+export function pruneElymentsMedia(params: {
+  maxAgeMs?: number;
+  maxTotalBytes?: number;
+  env?: NodeJS.ProcessEnv;
+  now?: number;
+}): number {
+  const maxAgeMs = params.maxAgeMs ?? DEFAULT_MEDIA_MAX_AGE_MS;
+  const maxTotalBytes = params.maxTotalBytes ?? DEFAULT_MEDIA_MAX_TOTAL_BYTES;
+  const now = params.now ?? Date.now();
+  const dir = getMediaDir(params.env);
+
+  let files: Array<{ path: string; mtimeMs: number; size: number }>;
+  try {
+    files = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => {
+        const filePath = path.join(dir, entry.name);
+        const stat = fs.statSync(filePath);
+        return { path: filePath, mtimeMs: stat.mtimeMs, size: stat.size };
+      })
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+  } catch {
+    return 0;
+  }
+
+  let total = files.reduce((sum, file) => sum + file.size, 0);
+  let removed = 0;
+  for (const file of files) {
+    if (now - file.mtimeMs <= maxAgeMs && total <= maxTotalBytes) break;
+    try {
+      fs.rmSync(file.path, { force: true });
+      total -= file.size;
+      removed += 1;
+    } catch (err) {
+      console.warn(`[elyments] Failed to prune media ${file.path}: ${String(err)}`);
+    }
+  }
+  return removed;
+}
@@ -1,15 +1,29 @@
 import type { RuntimeEnv } from "../../../../src/runtime.js";
-import type { CoreConfig, ElymentsInboundMessage } from "../types.js";
+import type {
+  CoreConfig,
+  ElymentsGroupMembershipEvent,
+  ElymentsGroupMetadata,
+  ElymentsInboundMessage,
+  ElymentsReplyToMode,
+  ElymentsRosterItem,
+  ElymentsRuntimeStatus,
+} from "../types.js";
+import { ElymentsClient, setSharedElymentsClient } from "./client.js";
 import {
-  ElymentsClient,
-  getSharedElymentsClient,
-  setSharedElymentsClient,
-} from "./client.js";
-import { resolveElymentsAccount, getElymentsSenderName } from "./accounts.js";
-import { elymentsCredentialsExist, loadElymentsSession } from "./credentials.js";
-import { isElymentsGroup, extractUserId } from "./xmpp.js";
-import type { XmppMessageEvent } from "./xmpp.js";
-import { loadConfig } from "../../../../src/config/config.js";
+  resolveElymentsAccount,
+  getElymentsSenderName,
+  rememberElymentsPairingAccount,
+  resolveElymentsPairingAccount,
+  buildElymentsGroupApproval,
+} from "./accounts.js";
+import {
+  elymentsAccountEnv,
+  elymentsCredentialsExist,
+  loadElymentsSession,
+} from "./credentials.js";
+import { isElymentsGroup, extractUserId, bareJid } from "./xmpp.js";
+import type { XmppMessageEvent, XmppOutgoingEvent, XmppReactionEvent } from "./xmpp.js";
+import { loadConfig, writeConfigFile } from "../../../../src/config/config.js";
 import { resolveAgentRoute } from "../../../../src/routing/resolve-route.js";
 import { formatAgentEnvelope } from "../../../../src/auto-reply/envelope.js";
 import { finalizeInboundContext } from "../../../../src/auto-reply/reply/inbound-context.js";
@@ -29,22 +43,34 @@ import { shouldHandleTextCommands } from "../../../../src/auto-reply/commands-re
 import { resolveCommandAuthorizedFromAuthorizers } from "../../../../src/channels/command-gating.js";
 import {
   readChannelAllowFromStore,
+  removeChannelAllowFromStoreEntry,
   upsertChannelPairingRequest,
 } from "../../../../src/pairing/pairing-store.js";
 import { resolveEffectiveMessagesConfig, resolveHumanDelayConfig } from "../../../../src/agents/identity.js";
 import { sendMessageElyments, sendTypingElyments } from "./send.js";
+import { ElymentsSyncStateStore } from "./sync-state.js";
+import { collectMissedMessages } from "./backfill.js";
+import { ElymentsDedupeStore, buildDedupeKeys } from "./dedupe.js";
+import { downloadElymentsMedia } from "./media.js";
+import { DEFAULT_CHUNK_DELAY_MS } from "./rate-limit.js";
+import { resolveSessionExpiry } from "./token-refresh.js";
+import { findGroupMember } from "./group-metadata.js";
+import type { ElymentsQuote } from "./codec.js";
 
 export type MonitorElymentsOpts = {
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
   accountId?: string;
+  statusSink?: (patch: Partial<ElymentsRuntimeStatus>) => void;
 };
 
 export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): Promise<void> {
   const cfg = loadConfig() as CoreConfig;
   if (cfg.channels?.elyments?.enabled === false) return;
 
-  if (!elymentsCredentialsExist()) {
+  const account = resolveElymentsAccount({ cfg, accountId: opts.accountId });
+  const env = elymentsAccountEnv(account.accountId);
+  if (!elymentsCredentialsExist(env)) {
     throw new Error("Elyments not configured. Run `clawdbot setup elyments` first.");
   }
 
@@ -56,14 +82,21 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
     },
   };
 
-  const account = resolveElymentsAccount({ cfg, accountId: opts.accountId });
-  const session = loadElymentsSession();
+  const session = loadElymentsSession(env);
   if (!session) {
     throw new Error("No Elyments session found");
   }
 
-  const client = getSharedElymentsClient();
-  setSharedElymentsClient(client);
+  const client = new ElymentsClient(env, {
+    reconnect: account.config.reconnect,
+    ping: account.config.ping,
+    receipts: account.config.receipts,
+    sendQueue: account.config.sendQueue,
+    rateLimit: account.config.rateLimit,
+    tokenRefresh: account.config.tokenRefresh,
+  });
+  setSharedElymentsClient(client, account.accountId);
+  const statusSink = opts.statusSink ?? (() => {});
 
   const mentionRegexes = buildMentionRegexes(cfg);
   const logger = getChildLogger({ module: "elyments-auto-reply" });
@@ -75,16 +108,45 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
   const textLimit = resolveTextChunkLimit(cfg, "elyments");
   const startupMs = Date.now();
   const startupGraceMs = 0;
-  const senderName = getElymentsSenderName(cfg);
+  const senderName = getElymentsSenderName(cfg, account.accountId);
+  const ownerReplies = account.config.ownerReplies;
+  const ownerPauseMs = ownerReplies?.pauseAutoReplyMs ?? 0;
+  // Last time the owner replied from another device, keyed by bare chat JID
+  const ownerActivity = new Map<string, number>();
+  const syncState = new ElymentsSyncStateStore(env);
+  const dedupe = new ElymentsDedupeStore(env);
+  const backfillConfig = account.config.backfill;
+  const mediaConfig = account.config.media;
+  const reactionsEnabled = account.config.actions?.reactions !== false;
+  const receiptsConfig = account.config.receipts;
+  const groupWelcomeMessage = account.config.groupWelcomeMessage?.trim();
+  const rateLimit = account.config.rateLimit;
+  const pacing = {
+    chunkDelayMs:
+      rateLimit?.enabled === false ? 0 : (rateLimit?.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS),
+    typingBetweenChunks: rateLimit?.typingBetweenChunks === true,
+  };
+  let rateLimitHits = 0;
 
   // Handle incoming messages
   const handleMessage = async (event: XmppMessageEvent) => {
     try {
-      // Skip old messages
-      if (event.timestamp < startupMs - startupGraceMs) {
+      // Skip old messages (backfilled ones are replayed on purpose)
+      if (!event.backfill && event.timestamp < startupMs - startupGraceMs) {
         return;
       }
 
+      // The same message can arrive via carbons, MAM, reconnect replays or redelivery
+      if (dedupe.checkAndRecord(buildDedupeKeys(event))) {
+        logVerbose(`elyments: drop duplicate message ${event.id} from ${event.from}`);
+        return;
+      }
+
+      syncState.recordSeen(bareJid(event.from), {
+        stanzaId: event.stanzaId,
+        timestamp: event.timestamp,
+      });
+
       const fromJid = event.from;
       const isGroup = isElymentsGroup(fromJid);
       const chatId = fromJid;
@@ -98,10 +160,19 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
       if (isGroup && groupPolicy === "disabled") return;
 
       const bodyText = event.body?.trim() || "";
-      if (!bodyText) return;
+      if (!bodyText && !event.media) return;
+
+      // Let the human answer without the bot talking over them
+      if (ownerPauseMs > 0) {
+        const ownerAt = ownerActivity.get(bareJid(fromJid).toLowerCase());
+        if (ownerAt && Date.now() - ownerAt < ownerPauseMs) {
+          logVerbose(`elyments: owner active in ${bareJid(fromJid)}, skipping auto-reply`);
+          return;
+        }
+      }
 
       // Check DM policy
-      const storeAllowFrom = await readChannelAllowFromStore("elyments").catch(() => []);
+      const storeAllowFrom = await readUserAllowFromStore();
       const effectiveAllowFrom = [...allowFrom, ...storeAllowFrom].map((e) =>
         String(e).toLowerCase().trim(),
       );
@@ -127,8 +198,9 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
               const { code, created } = await upsertChannelPairingRequest({
                 channel: "elyments",
                 id: senderId,
-                meta: { name: senderDisplayName },
+                meta: { name: senderDisplayName, accountId: account.accountId },
               });
+              rememberElymentsPairingAccount(senderId, account.accountId);
 
               if (created) {
                 try {
@@ -139,7 +211,7 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
                     "",
                     "Ask the bot owner to approve with:",
                     "clawdbot pairing approve elyments <code>",
-                  ].join("\n"));
+                  ].join("\n"), { accountId: account.accountId });
                 } catch (err) {
                   logVerbose(`elyments pairing reply failed for ${senderId}: ${String(err)}`);
                 }
@@ -150,21 +222,28 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
         }
       }
 
-      // Check group allowlist
-      if (isGroup && groupPolicy === "allowlist") {
+      // Check group allowlist (groups approved since startup count as listed)
+      if (isGroup && (groupPolicy === "allowlist" || groupPolicy === "pairing")) {
+        const roomJid = bareJid(chatId).toLowerCase();
         const groups = account.groups ?? {};
-        const groupConfig = groups[chatId] || groups[senderId];
-        if (!groupConfig) {
+        const groupConfig = groups[chatId] || groups[roomJid] || groups[senderId];
+        const groupApproved = approvedGroups.has(roomJid);
+        if (!groupConfig && !groupApproved) {
+          // Unknown groups ask the owner for approval the first time the bot is mentioned
+          if (groupPolicy === "pairing" && matchesMentionPatterns(bodyText, mentionRegexes)) {
+            await requestGroupPairing(roomJid, senderId);
+            return;
+          }
           logVerbose("elyments: drop group message (not in allowlist)");
           return;
         }
-        if (groupConfig.enabled === false) {
+        if (groupConfig?.enabled === false) {
           logVerbose("elyments: drop group message (disabled)");
           return;
         }
 
         // Check user allowlist within group
-        if (groupConfig.users?.length) {
+        if (groupConfig?.users?.length) {
           const userAllowed = groupConfig.users.some(
             (entry) =>
               entry === "*" ||
@@ -180,7 +259,10 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
 
       // Get group config
       const groupConfigInfo = isGroup
-        ? (account.groups ?? {})[chatId] || (account.groups ?? {})[senderId] || {}
+        ? (account.groups ?? {})[chatId] ||
+          (account.groups ?? {})[bareJid(chatId).toLowerCase()] ||
+          (account.groups ?? {})[senderId] ||
+          {}
         : {};
 
       // Check mention requirement
@@ -229,10 +311,55 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
         return;
       }
 
-      // Build context
+      // Mark the message as read now that the bot is handling it
+      const sendReadMarker =
+        (isGroup ? groupConfigInfo.readReceipts : undefined) ??
+        (isGroup ? receiptsConfig?.groups === true : receiptsConfig?.dm !== false);
+      client.acknowledgeMessage(event, { displayed: sendReadMarker }).catch((err) => {
+        logVerbose(`elyments: read marker failed for ${event.id}: ${String(err)}`);
+      });
+
+      // Download attachments only once we know the message will be handled
       const messageId = event.id || `msg-${Date.now()}`;
-      const envelopeFrom = isGroup ? chatId : senderDisplayName;
-      const textWithId = `${bodyText}\n[elyments message id: ${messageId} chat: ${chatId}]`;
+      let mediaPath: string | undefined;
+      let mediaType: string | undefined;
+      if (event.media && mediaConfig?.downloadInbound !== false) {
+        try {
+          const downloaded = await downloadElymentsMedia({
+            media: event.media,
+            maxBytes: mediaConfig?.maxInboundBytes,
+            maxAgeMs: mediaConfig?.maxAgeMs,
+            maxTotalBytes: mediaConfig?.maxTotalBytes,
+            env,
+          });
+          mediaPath = downloaded.path;
+          mediaType = downloaded.contentType;
+        } catch (err) {
+          logVerbose(`elyments: media download failed for ${messageId}: ${String(err)}`);
+        }
+      }
+      const messageText = bodyText || `<media:${event.media?.type ?? "document"}>`;
+
+      // Show the agent what an inbound quoted reply is answering
+      const quoted = event.content?.kind === "reply" ? event.content.quoted : undefined;
+      const quotedSender =
+        quoted?.senderName || (quoted?.senderJid ? extractUserId(quoted.senderJid) : undefined);
+      const replySuffix = quoted
+        ? `\n\n[Replying to ${quotedSender ?? "unknown"} id:${quoted.id}]\n${quoted.text ?? ""}\n[/Replying]`
+        : "";
+
+      // Real group name, members and the sender's role (group JIDs are room/sender).
+      // Cache only: the first message from a group may go out with just its title.
+      const groupMetadata = isGroup ? client.getCachedGroupMetadata(chatId) : undefined;
+      const groupSubject = groupMetadata?.name || groupMetadata?.subject || bareJid(chatId);
+      const senderRole = groupMetadata
+        ? findGroupMember(groupMetadata, fromJid.split("/")[1] || senderId)?.affiliation
+        : undefined;
+
+      // Build context
+      const envelopeFrom = isGroup ? groupSubject : senderDisplayName;
+      const roleSuffix = senderRole ? ` sender role: ${senderRole}` : "";
+      const textWithId = `${messageText}${replySuffix}\n[elyments message id: ${messageId} chat: ${chatId}${roleSuffix}]`;
       const body = formatAgentEnvelope({
         channel: "Elyments",
         from: envelopeFrom,
@@ -243,6 +370,7 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
       const route = resolveAgentRoute({
         cfg,
         channel: "elyments",
+        accountId: account.accountId,
         peer: {
           kind: isGroup ? "channel" : "dm",
           id: chatId,
@@ -252,7 +380,7 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
       const groupSystemPrompt = isGroup ? groupConfigInfo.systemPrompt?.trim() : undefined;
       const ctxPayload = finalizeInboundContext({
         Body: body,
-        RawBody: bodyText,
+        RawBody: messageText,
         CommandBody: bodyText,
         From: `elyments:${fromJid}`,
         To: `elyments:${chatId}`,
@@ -263,13 +391,22 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
         SenderName: senderDisplayName,
         SenderId: senderId,
         SenderUsername: senderId,
-        GroupSubject: isGroup ? chatId : undefined,
-        GroupRoom: isGroup ? chatId : undefined,
+        GroupSubject: isGroup ? groupSubject : undefined,
+        GroupRoom: isGroup ? groupSubject : undefined,
+        GroupMembers: groupMetadata?.members.length
+          ? formatGroupMembers(groupMetadata, client.getRoster())
+          : undefined,
         GroupSystemPrompt: groupSystemPrompt,
         Provider: "elyments" as const,
         Surface: "elyments" as const,
         WasMentioned: isGroup ? wasMentioned : undefined,
         MessageSid: messageId,
+        ReplyToId: quoted?.id,
+        ReplyToBody: quoted?.text,
+        ReplyToSender: quotedSender,
+        MediaPath: mediaPath,
+        MediaType: mediaType ?? event.media?.mimeType,
+        MediaUrl: mediaPath,
         Timestamp: event.timestamp,
         CommandAuthorized: commandAuthorized,
         CommandSource: "text" as const,
@@ -292,7 +429,7 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
       }
 
       if (shouldLogVerbose()) {
-        const preview = bodyText.slice(0, 200).replace(/\n/g, "\\n");
+        const preview = messageText.slice(0, 200).replace(/\n/g, "\\n");
         logVerbose(`elyments inbound: chat=${chatId} from=${senderId} preview="${preview}"`);
       }
 
@@ -303,24 +440,41 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
         return;
       }
 
+      // Only the first outbound message of this turn quotes the trigger
+      let replyTo: ElymentsQuote | undefined = shouldQuoteReply({
+        mode: groupConfigInfo.replyToMode ?? account.config.replyToMode,
+        isGroup,
+      })
+        ? {
+            id: messageId,
+            text: bodyText || undefined,
+            senderName: senderDisplayName,
+            senderJid: fromJid,
+          }
+        : undefined;
+
       let didSendReply = false;
       const { dispatcher, replyOptions, markDispatchIdle } = createReplyDispatcherWithTyping({
         responsePrefix: resolveEffectiveMessagesConfig(cfg, route.agentId).responsePrefix,
         humanDelay: resolveHumanDelayConfig(cfg, route.agentId),
         deliver: async (payload) => {
-          await deliverElymentsReplies({
+          const delivered = await deliverElymentsReplies({
             replies: [payload],
             chatId,
             textLimit,
             senderName,
+            replyTo,
+            pacing,
+            accountId: account.accountId,
           });
+          if (delivered > 0) replyTo = undefined;
           didSendReply = true;
         },
         onError: (err, info) => {
           runtime.error?.(danger(`elyments ${info.kind} reply failed: ${String(err)}`));
         },
-        onReplyStart: () => sendTypingElyments(chatId, true).catch(() => {}),
-        onIdle: () => sendTypingElyments(chatId, false).catch(() => {}),
+        onReplyStart: () => sendTypingElyments(chatId, true, account.accountId).catch(() => {}),
+        onIdle: () => sendTypingElyments(chatId, false, account.accountId).catch(() => {}),
       });
 
       const { queuedFinal, counts } = await dispatchReplyFromConfig({
@@ -343,7 +497,7 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
       }
 
       if (didSendReply) {
-        const preview = bodyText.replace(/\s+/g, " ").slice(0, 160);
+        const preview = messageText.replace(/\s+/g, " ").slice(0, 160);
         enqueueSystemEvent(`Elyments message from ${senderDisplayName}: ${preview}`, {
           sessionKey: route.sessionKey,
           contextKey: `elyments:message:${chatId}:${messageId}`,
@@ -355,29 +509,352 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
     }
   };
 
+  // Surface reactions on the bot's own messages as system events (no reply)
+  const handleReaction = (event: XmppReactionEvent) => {
+    try {
+      if (!event.toOwnMessage || !reactionsEnabled) return;
+
+      const chatId = event.from;
+      const isGroup = isElymentsGroup(chatId);
+      // Group reactions come from room/occupant; the occupant is who reacted
+      const senderId = extractUserId(isGroup ? (chatId.split("/")[1] ?? "") : chatId);
+      if (!senderId || senderId === session.userId) return;
+
+      const route = resolveAgentRoute({
+        cfg,
+        channel: "elyments",
+        accountId: account.accountId,
+        peer: {
+          kind: isGroup ? "channel" : "dm",
+          id: chatId,
+        },
+      });
+      const text = event.reactions.length
+        ? `Elyments reaction ${event.reactions.join(" ")} from ${senderId} on message ${event.targetId}`
+        : `Elyments reactions removed by ${senderId} on message ${event.targetId}`;
+      const reactionKey = `${event.targetId}:${senderId}:${event.reactions.join(",")}`;
+      enqueueSystemEvent(text, {
+        sessionKey: route.sessionKey,
+        contextKey: `elyments:reaction:${bareJid(chatId)}:${reactionKey}`,
+      });
+      logVerbose(`elyments: ${text}`);
+    } catch (err) {
+      const stack = err instanceof Error ? err.stack : String(err);
+      runtime.error?.(danger(`elyments reaction handler failed: ${stack}`));
+    }
+  };
+
+  // Record replies the owner sent from their phone (carbons)
+  const handleOwnerMessage = (event: XmppOutgoingEvent) => {
+    try {
+      const chatId = event.to;
+      if (!chatId) return;
+      ownerActivity.set(chatId.toLowerCase(), event.timestamp);
+
+      if (ownerReplies?.record === false) return;
+      const text = event.body?.trim() || "";
+      if (!text) return;
+
+      const isGroup = isElymentsGroup(chatId);
+      const route = resolveAgentRoute({
+        cfg,
+        channel: "elyments",
+        accountId: account.accountId,
+        peer: {
+          kind: isGroup ? "channel" : "dm",
+          id: chatId,
+        },
+      });
+      const preview = text.replace(/\s+/g, " ").slice(0, 160);
+      enqueueSystemEvent(`Elyments reply sent by owner to ${chatId}: ${preview}`, {
+        sessionKey: route.sessionKey,
+        contextKey: `elyments:owner:${chatId}:${event.id}`,
+      });
+    } catch (err) {
+      const stack = err instanceof Error ? err.stack : String(err);
+      runtime.error?.(danger(`elyments owner message handler failed: ${stack}`));
+    }
+  };
+
+  // Pending group pairing requests, so a room is asked once rather than on every
+  // mention (core pairing requests expire after an hour)
+  const groupPairingRequestedAt = new Map<string, number>();
+  const GROUP_PAIRING_PENDING_MS = 60 * 60_000;
+
+  // Ask the owner to approve a group
+  const requestGroupPairing = async (roomJid: string, requestedBy?: string) => {
+    const requestedAt = groupPairingRequestedAt.get(roomJid);
+    if (requestedAt && Date.now() - requestedAt < GROUP_PAIRING_PENDING_MS) return;
+    groupPairingRequestedAt.set(roomJid, Date.now());
+
+    const groupMetadata = await client.getGroupMetadata(roomJid);
+    const groupName = groupMetadata.name || groupMetadata.subject || roomJid;
+    const { code, created } = await upsertChannelPairingRequest({
+      channel: "elyments",
+      id: roomJid,
+      meta: {
+        name: groupName,
+        kind: "group",
+        accountId: account.accountId,
+        ...(requestedBy ? { requestedBy } : {}),
+      },
+    });
+    rememberElymentsPairingAccount(roomJid, account.accountId);
+    if (!created) return;
+
+    runtime.log?.(
+      `elyments: group "${groupName}" awaits approval: clawdbot pairing approve elyments ${code}`,
+    );
+    try {
+      await sendMessageElyments(roomJid, [
+        "Clawdbot: this group is not approved yet.",
+        "",
+        `Pairing code: ${code}`,
+        "",
+        "Ask the bot owner to approve with:",
+        "clawdbot pairing approve elyments <code>",
+      ].join("\n"), { accountId: account.accountId });
+    } catch (err) {
+      logVerbose(`elyments group pairing reply failed for ${roomJid}: ${String(err)}`);
+    }
+  };
+
+  // Groups approved while this monitor runs (config is reloaded on the next start)
+  const approvedGroups = new Set<string>();
+
+  // Approving a group pairing request puts the room JID in the shared allowFrom
+  // store. Move this account's rooms into channels.elyments groups config and out
+  // of the store, so they never count as DM allowlist entries.
+  const applyGroupApprovals = async (roomJids: string[]) => {
+    const ours = roomJids.filter(
+      (roomJid) => resolveElymentsPairingAccount(cfg, roomJid) === account.accountId,
+    );
+    if (ours.length === 0) return;
+
+    let nextCfg = loadConfig() as CoreConfig;
+    for (const roomJid of ours) {
+      nextCfg = buildElymentsGroupApproval(nextCfg, account.accountId, roomJid);
+    }
+    await writeConfigFile(nextCfg);
+    for (const roomJid of ours) {
+      await removeChannelAllowFromStoreEntry({ channel: "elyments", entry: roomJid });
+      approvedGroups.add(roomJid);
+      groupPairingRequestedAt.delete(roomJid);
+      runtime.log?.(`elyments: group ${roomJid} approved; added to groups config`);
+    }
+  };
+
+  // Approved user ids from the pairing store; approved groups are applied on the way
+  const readUserAllowFromStore = async (): Promise<string[]> => {
+    const entries = (await readChannelAllowFromStore("elyments").catch(() => [])).map((entry) =>
+      String(entry).toLowerCase().trim(),
+    );
+    const roomJids = entries.filter((entry) => isElymentsGroup(entry));
+    if (roomJids.length > 0) {
+      await applyGroupApprovals(roomJids).catch((err) => {
+        runtime.error?.(danger(`elyments: applying group approvals failed: ${String(err)}`));
+      });
+    }
+    return entries.filter((entry) => !isElymentsGroup(entry));
+  };
+
+  // Whether the bot may reply in a group (config allowlist or approved pairing)
+  const isGroupAllowed = async (roomJid: string): Promise<boolean> => {
+    if (groupPolicy === "open") return true;
+    if (groupPolicy === "disabled") return false;
+    const groups = account.groups ?? {};
+    const groupConfig = groups[roomJid] || groups[extractUserId(roomJid)];
+    if (groupConfig) return groupConfig.enabled !== false;
+    await readUserAllowFromStore();
+    return approvedGroups.has(roomJid);
+  };
+
+  // Bot added to/removed from a group, or members joining/leaving one
+  const handleGroupMembership = async (event: ElymentsGroupMembershipEvent) => {
+    try {
+      if (groupPolicy === "disabled") return;
+      const roomJid = event.room.toLowerCase();
+      const metadata = client.peekGroupMetadata(roomJid);
+
+      if (event.self) {
+        if (event.kind !== "join") {
+          runtime.log?.(`elyments: removed from group ${metadata?.name ?? roomJid}`);
+          return;
+        }
+
+        const groupName = (await client.getGroupMetadata(roomJid)).name || roomJid;
+        const invitedBy = event.actor ? extractUserId(event.actor) : undefined;
+        runtime.log?.(
+          `elyments: added to group "${groupName}"${invitedBy ? ` by ${invitedBy}` : ""}`,
+        );
+
+        if (!(await isGroupAllowed(roomJid))) {
+          await requestGroupPairing(roomJid, invitedBy);
+          return;
+        }
+
+        if (groupWelcomeMessage) {
+          await sendMessageElyments(roomJid, groupWelcomeMessage, { accountId: account.accountId });
+        }
+        return;
+      }
+
+      if (!(await isGroupAllowed(roomJid))) return;
+
+      const memberId = extractUserId(event.memberJid);
+      const memberName =
+        client.getRoster().find((item) => item.jid === event.memberJid)?.name || memberId;
+      const groupName = metadata?.name || roomJid;
+      const text =
+        event.kind === "join"
+          ? `Elyments: ${memberName} joined group ${groupName}`
+          : event.kind === "kick"
+            ? `Elyments: ${memberName} was removed from group ${groupName}`
+            : `Elyments: ${memberName} left group ${groupName}`;
+      const route = resolveAgentRoute({
+        cfg,
+        channel: "elyments",
+        accountId: account.accountId,
+        peer: { kind: "channel", id: roomJid },
+      });
+      enqueueSystemEvent(text, {
+        sessionKey: route.sessionKey,
+        contextKey: `elyments:membership:${roomJid}:${memberId}:${event.kind}:${event.timestamp}`,
+      });
+      logVerbose(text);
+    } catch (err) {
+      const stack = err instanceof Error ? err.stack : String(err);
+      runtime.error?.(danger(`elyments group membership handler failed: ${stack}`));
+    }
+  };
+
+  // Replay messages that arrived while we were offline
+  let backfillRunning = false;
+  const runBackfill = async () => {
+    if (backfillConfig?.enabled === false || backfillRunning) return;
+    backfillRunning = true;
+    try {
+      const missed = await collectMissedMessages({
+        queryArchive: (params) => client.queryArchive(params),
+        state: syncState.snapshot(),
+        config: backfillConfig,
+      });
+      if (missed.length > 0) {
+        runtime.log?.(`elyments: backfilling ${missed.length} missed message(s)`);
+      }
+      for (const event of missed) {
+        await handleMessage(event);
+      }
+    } catch (err) {
+      runtime.error?.(danger(`elyments backfill failed: ${String(err)}`));
+    } finally {
+      backfillRunning = false;
+    }
+  };
+
   // Set up event handlers
   client.on("message", handleMessage);
+  client.on("outgoing", handleOwnerMessage);
+  client.on("reaction", handleReaction);
+  client.on("groupMembership", handleGroupMembership);
+  client.on("sent", ({ at }) => {
+    statusSink({ lastOutboundAt: at });
+  });
+  client.on("rateLimited", ({ chatJid, scope, waitMs }) => {
+    rateLimitHits += 1;
+    logVerbose(`elyments: ${scope} rate limit hit for ${chatJid}, waiting ${waitMs}ms`);
+    statusSink({ rateLimitHits, lastRateLimitedAt: Date.now() });
+  });
+  client.on("queue", ({ depth }) => {
+    statusSink({ queueDepth: depth });
+  });
+  client.on("sendDropped", ({ chatJid, reason, attempts }) => {
+    runtime.error?.(
+      danger(`elyments: dropped queued message to ${chatJid} (${reason}, ${attempts} attempts)`),
+    );
+  });
+  client.on("delivery", (record) => {
+    if (record.state === "failed") {
+      runtime.error?.(danger(`elyments: message ${record.id} to ${record.to} failed`));
+    }
+    const stats = client.getDeliveryStats();
+    statusSink({ deliveredCount: stats.delivered, failedCount: stats.failed });
+  });
   client.on("error", (err) => {
     runtime.error?.(danger(`elyments error: ${err.message}`));
   });
+  client.on("groupChange", ({ room, change }) => {
+    logVerbose(`elyments: group ${room} ${change.kind} changed`);
+  });
+  client.on("tokenRefreshed", ({ at, expiresAt }) => {
+    logVerbose(
+      `elyments: tokens refreshed${expiresAt ? `, valid until ${new Date(expiresAt).toISOString()}` : ""}`,
+    );
+    statusSink({ lastTokenRefreshAt: at, tokenExpiresAt: expiresAt, reloginRequired: false });
+  });
+  client.on("reloginRequired", ({ error }) => {
+    runtime.error?.(danger(`elyments: re-login required (${error})`));
+    statusSink({ reloginRequired: true, lastError: error });
+  });
   client.on("connected", () => {
     runtime.log?.(`elyments: connected as ${session.userId}`);
+    statusSink({
+      connected: true,
+      lastConnectedAt: Date.now(),
+      lastError: null,
+      reconnectAttempts: client.getReconnectAttempts(),
+    });
+    // Snapshot the sync position first, then note that we're caught up from here on
+    void runBackfill();
+    syncState.markSeen(Date.now());
   });
   client.on("disconnected", ({ reason }) => {
     runtime.log?.(`elyments: disconnected (${reason || "unknown"})`);
+    syncState.markSeen(Date.now());
+    statusSink({
+      connected: false,
+      lastDisconnectAt: Date.now(),
+      lastDisconnectReason: reason ?? null,
+    });
+  });
+  client.on("reconnecting", ({ attempt, delayMs }) => {
+    runtime.log?.(`elyments: reconnecting in ${Math.round(delayMs / 1000)}s (attempt ${attempt})`);
+    statusSink({ reconnectAttempts: attempt, lastReconnectAt: Date.now() });
+  });
+  client.on("pong", ({ rttMs, at }) => {
+    statusSink({ lastPingRttMs: rttMs, lastPongAt: at, missedPings: 0 });
+  });
+  client.on("pingTimeout", ({ missed }) => {
+    logVerbose(`elyments: ping timed out (${missed} missed)`);
+    statusSink({ missedPings: missed });
+  });
+  client.on("reconnected", ({ attempts }) => {
+    runtime.log?.(`elyments: reconnected after ${attempts} attempt${attempts === 1 ? "" : "s"}`);
+  });
+  client.on("stable", () => {
+    statusSink({ reconnectAttempts: 0 });
   });
 
   // Connect to Elyments
   await client.connect();
   runtime.log?.(`elyments: logged in as ${session.userId}`);
+  statusSink({
+    tokenExpiresAt: resolveSessionExpiry(loadElymentsSession(env) ?? session),
+    reloginRequired: false,
+  });
+  // Pick up groups approved while the gateway was down
+  void readUserAllowFromStore();
 
   // Wait for abort signal
   await new Promise<void>((resolve) => {
     const onAbort = () => {
       try {
+        syncState.markSeen(Date.now());
+        syncState.flush();
+        dedupe.flush();
         client.disconnect();
       } finally {
-        setSharedElymentsClient(null);
+        setSharedElymentsClient(null, account.accountId);
         resolve();
       }
     };
@@ -389,30 +866,74 @@ export async function monitorElymentsProvider(opts: MonitorElymentsOpts = {}): P
   });
 }
 
-// Deliver replies to Elyments
+const MAX_LISTED_GROUP_MEMBERS = 50;
+
+// Whether replies should quote the triggering message
+function shouldQuoteReply(params: { mode?: ElymentsReplyToMode; isGroup: boolean }): boolean {
+  const mode = params.mode ?? "groups-only";
+  if (mode === "never") return false;
+  return mode === "always" || params.isGroup;
+}
+
+// "Asha (owner), Ravi, 9876543210" using roster names where known
+function formatGroupMembers(metadata: ElymentsGroupMetadata, roster: ElymentsRosterItem[]): string {
+  const names = new Map(roster.map((item) => [item.jid, item.name]));
+  const members = metadata.members.slice(0, MAX_LISTED_GROUP_MEMBERS).map((member) => {
+    const name = names.get(member.jid) || extractUserId(member.jid);
+    return member.affiliation === "owner" ? `${name} (owner)` : name;
+  });
+  const hidden = metadata.members.length - members.length;
+  return hidden > 0 ? `${members.join(", ")} and ${hidden} more` : members.join(", ");
+}
+
+// Deliver replies to Elyments; returns the number of messages sent. Only the
+// first message quotes replyTo so long answers don't repeat the quote per chunk.
 async function deliverElymentsReplies(params: {
   replies: Array<{ text?: string; mediaUrl?: string }>;
   chatId: string;
   textLimit: number;
   senderName: string;
-}): Promise<void> {
-  const { replies, chatId, textLimit, senderName } = params;
+  replyTo?: ElymentsQuote;
+  pacing?: { chunkDelayMs: number; typingBetweenChunks: boolean };
+  accountId?: string;
+}): Promise<number> {
+  const { replies, chatId, textLimit, senderName, pacing, accountId } = params;
+  let replyTo = params.replyTo;
+  let sent = 0;
+
+  // Pause between consecutive messages, optionally showing "typing..." meanwhile
+  const pace = async () => {
+    if (sent === 0 || !pacing || pacing.chunkDelayMs <= 0) return;
+    if (pacing.typingBetweenChunks) {
+      await sendTypingElyments(chatId, true, accountId).catch(() => {});
+    }
+    await new Promise((resolve) => setTimeout(resolve, pacing.chunkDelayMs));
+  };
 
   for (const reply of replies) {
     if (reply.text) {
       // Chunk text if needed
       const chunks = chunkMarkdownText(reply.text, textLimit);
       for (const chunk of chunks) {
+        await pace();
         await sendMessageElyments(chatId, chunk, {
           senderName,
           mediaUrl: reply.mediaUrl,
+          replyTo: reply.mediaUrl ? undefined : replyTo,
+          accountId,
         });
+        if (!reply.mediaUrl) replyTo = undefined;
+        sent++;
       }
     } else if (reply.mediaUrl) {
+      await pace();
       await sendMessageElyments(chatId, "", {
         senderName,
         mediaUrl: reply.mediaUrl,
+        accountId,
       });
+      sent++;
     }
   }
+  return sent;
 }
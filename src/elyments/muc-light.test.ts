@@ -0,0 +1,184 @@
+import { xml } from "@xmpp/client";
+import { describe, expect, it } from "vitest";
+
+import {
+  MUC_LIGHT_AFFILIATIONS_NS,
+  MUC_LIGHT_CONFIGURATION_NS,
+  applyMucLightAffiliations,
+  classifyMembershipChanges,
+  parseMucLightInfo,
+  parseMucLightNotification,
+} from "./muc-light.js";
+import type { XmppElement } from "./xmpp.js";
+
+const ROOM = "g1@muclight.localhost";
+const el = (element: unknown) => element as XmppElement;
+
+describe("parseMucLightNotification", () => {
+  it("parses an affiliations change", () => {
+    const message = xml(
+      "message",
+      { from: ROOM, type: "groupchat" },
+      xml(
+        "x",
+        { xmlns: MUC_LIGHT_AFFILIATIONS_NS },
+        xml("prev-version", {}, "v1"),
+        xml("version", {}, "v2"),
+        xml("user", { affiliation: "member" }, "Alice@localhost"),
+        xml("user", { affiliation: "none" }, "bob@localhost"),
+        xml("user", { affiliation: "admin" }, "carol@localhost"),
+      ),
+    );
+    expect(parseMucLightNotification(el(message))).toEqual({
+      kind: "affiliations",
+      version: "v2",
+      prevVersion: "v1",
+      members: [
+        { jid: "alice@localhost", affiliation: "member" },
+        { jid: "bob@localhost", affiliation: "none" },
+        // Unknown affiliations fall back to member
+        { jid: "carol@localhost", affiliation: "member" },
+      ],
+    });
+  });
+
+  it("parses a configuration change", () => {
+    const message = xml(
+      "message",
+      { from: ROOM, type: "groupchat" },
+      xml(
+        "x",
+        { xmlns: MUC_LIGHT_CONFIGURATION_NS },
+        xml("version", {}, "v3"),
+        xml("roomname", {}, " Weekend plans "),
+      ),
+    );
+    expect(parseMucLightNotification(el(message))).toEqual({
+      kind: "configuration",
+      version: "v3",
+      prevVersion: undefined,
+      name: "Weekend plans",
+      subject: undefined,
+    });
+  });
+
+  it("ignores ordinary messages", () => {
+    const message = xml("message", { from: ROOM, type: "groupchat" }, xml("body", {}, "hi"));
+    expect(parseMucLightNotification(el(message))).toBeNull();
+  });
+});
+
+describe("parseMucLightInfo", () => {
+  it("reads name, subject, members and version", () => {
+    const query = xml(
+      "query",
+      { xmlns: "urn:xmpp:muclight:0#info" },
+      xml("version", {}, "v5"),
+      xml(
+        "configuration",
+        {},
+        xml("roomname", {}, "Team"),
+        xml("subject", {}, "Standup at 10"),
+      ),
+      xml(
+        "occupants",
+        {},
+        xml("user", { affiliation: "owner" }, "alice@localhost"),
+        xml("user", { affiliation: "member" }, "bob@localhost"),
+      ),
+    );
+    const info = parseMucLightInfo("G1@MUCLIGHT.localhost", el(query));
+    expect(info).toMatchObject({
+      jid: ROOM,
+      name: "Team",
+      subject: "Standup at 10",
+      version: "v5",
+      members: [
+        { jid: "alice@localhost", affiliation: "owner" },
+        { jid: "bob@localhost", affiliation: "member" },
+      ],
+    });
+  });
+
+  it("returns an empty group without a query", () => {
+    expect(parseMucLightInfo(ROOM, undefined)).toMatchObject({ jid: ROOM, members: [] });
+  });
+});
+
+describe("classifyMembershipChanges", () => {
+  const previous = [
+    { jid: "alice@localhost", affiliation: "owner" as const },
+    { jid: "bob@localhost", affiliation: "member" as const },
+  ];
+
+  it("reports new members as joins and skips promotions", () => {
+    const events = classifyMembershipChanges({
+      room: ROOM,
+      previous,
+      changes: [
+        { jid: "bob@localhost", affiliation: "owner" },
+        { jid: "bot@localhost", affiliation: "member" },
+      ],
+      actor: "alice@localhost",
+      ownJid: "bot@localhost",
+      timestamp: 1,
+    });
+    expect(events).toEqual([
+      {
+        room: ROOM,
+        kind: "join",
+        memberJid: "bot@localhost",
+        actor: "alice@localhost",
+        self: true,
+        timestamp: 1,
+      },
+    ]);
+  });
+
+  it("tells kicks from leaves by the actor", () => {
+    const kick = classifyMembershipChanges({
+      room: ROOM,
+      previous,
+      changes: [{ jid: "bob@localhost", affiliation: "none" }],
+      actor: "alice@localhost",
+      ownJid: "bot@localhost",
+    });
+    expect(kick.map((event) => event.kind)).toEqual(["kick"]);
+
+    const leave = classifyMembershipChanges({
+      room: ROOM,
+      previous,
+      changes: [{ jid: "bob@localhost", affiliation: "none" }],
+      actor: "Bob@localhost",
+      ownJid: "bot@localhost",
+    });
+    expect(leave.map((event) => event.kind)).toEqual(["leave"]);
+
+    const unnamed = classifyMembershipChanges({
+      room: ROOM,
+      changes: [{ jid: "bob@localhost", affiliation: "none" }],
+      ownJid: "bot@localhost",
+    });
+    expect(unnamed.map((event) => event.kind)).toEqual(["leave"]);
+  });
+});
+
+describe("applyMucLightAffiliations", () => {
+  it("adds, updates and removes members", () => {
+    const members = applyMucLightAffiliations(
+      [
+        { jid: "alice@localhost", affiliation: "owner" },
+        { jid: "bob@localhost", affiliation: "member" },
+      ],
+      [
+        { jid: "bob@localhost", affiliation: "none" },
+        { jid: "alice@localhost", affiliation: "member" },
+        { jid: "carol@localhost", affiliation: "member" },
+      ],
+    );
+    expect(members).toEqual([
+      { jid: "alice@localhost", affiliation: "member" },
+      { jid: "carol@localhost", affiliation: "member" },
+    ]);
+  });
+});
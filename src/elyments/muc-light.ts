@@ -0,0 +1,152 @@
+import type {
+  ElymentsGroupAffiliation,
+  ElymentsGroupMember,
+  ElymentsGroupMembershipEvent,
+  ElymentsGroupMetadata,
+} from "../types.js";
+import type { XmppElement } from "./xmpp.js";
+
+export const MUC_LIGHT_INFO_NS = "urn:xmpp:muclight:0#info";
+export const MUC_LIGHT_AFFILIATIONS_NS = "urn:xmpp:muclight:0#affiliations";
+export const MUC_LIGHT_CONFIGURATION_NS = "urn:xmpp:muclight:0#configuration";
+export const MUC_LIGHT_CREATE_NS = "urn:xmpp:muclight:0#create";
+
+const AFFILIATIONS = new Set<ElymentsGroupAffiliation>(["owner", "member", "none"]);
+
+// Group change pushed by the room as a groupchat message
+export type MucLightNotification =
+  | {
+      kind: "affiliations";
+      version?: string;
+      prevVersion?: string;
+      // Changed members only; affiliation "none" means the user left or was removed
+      members: ElymentsGroupMember[];
+    }
+  | {
+      kind: "configuration";
+      version?: string;
+      prevVersion?: string;
+      name?: string;
+      subject?: string;
+    };
+
+function childText(parent: XmppElement, name: string): string | undefined {
+  return parent.getChildText(name)?.trim() || undefined;
+}
+
+// Parse <user affiliation="...">jid</user> children
+export function parseMucLightUsers(parent: XmppElement | undefined): ElymentsGroupMember[] {
+  if (!parent) return [];
+
+  const members: ElymentsGroupMember[] = [];
+  for (const user of parent.getChildren("user")) {
+    const jid = user.text?.().trim().toLowerCase();
+    if (!jid) continue;
+
+    const rawAffiliation = (user.attrs?.affiliation || "member") as ElymentsGroupAffiliation;
+    members.push({
+      jid,
+      affiliation: AFFILIATIONS.has(rawAffiliation) ? rawAffiliation : "member",
+    });
+  }
+  return members;
+}
+
+// Parse an info query result into group metadata
+export function parseMucLightInfo(
+  roomJid: string,
+  query: XmppElement | undefined,
+): ElymentsGroupMetadata {
+  const configuration = query?.getChild("configuration");
+  return {
+    jid: roomJid.toLowerCase(),
+    name: configuration ? childText(configuration, "roomname") : undefined,
+    subject: configuration ? childText(configuration, "subject") : undefined,
+    members: parseMucLightUsers(query?.getChild("occupants")),
+    version: query ? childText(query, "version") : undefined,
+    updatedAt: Date.now(),
+  };
+}
+
+// Detect a MUC-Light affiliation or configuration change notification
+export function parseMucLightNotification(message: XmppElement): MucLightNotification | null {
+  const affiliations = message.getChild("x", MUC_LIGHT_AFFILIATIONS_NS);
+  if (affiliations) {
+    return {
+      kind: "affiliations",
+      version: childText(affiliations, "version"),
+      prevVersion: childText(affiliations, "prev-version"),
+      members: parseMucLightUsers(affiliations),
+    };
+  }
+
+  const configuration = message.getChild("x", MUC_LIGHT_CONFIGURATION_NS);
+  if (configuration) {
+    return {
+      kind: "configuration",
+      version: childText(configuration, "version"),
+      prevVersion: childText(configuration, "prev-version"),
+      name: childText(configuration, "roomname"),
+      subject: childText(configuration, "subject"),
+    };
+  }
+
+  return null;
+}
+
+// Turn an affiliation notification into join/leave/kick events. Members we
+// already knew (e.g. promoted to owner) are not joins. MUC-Light doesn't say
+// why someone was removed, so a removal is a kick only when another member is
+// named as the actor.
+export function classifyMembershipChanges(params: {
+  room: string;
+  changes: ElymentsGroupMember[];
+  previous?: ElymentsGroupMember[];
+  actor?: string;
+  ownJid: string;
+  timestamp?: number;
+}): ElymentsGroupMembershipEvent[] {
+  const { room, changes, previous, actor } = params;
+  const userId = (jid: string) => jid.split("@")[0].toLowerCase();
+  const known = new Set((previous ?? []).map((member) => userId(member.jid)));
+  const ownId = userId(params.ownJid);
+  const timestamp = params.timestamp ?? Date.now();
+
+  const events: ElymentsGroupMembershipEvent[] = [];
+  for (const change of changes) {
+    const memberId = userId(change.jid);
+    let kind: ElymentsGroupMembershipEvent["kind"];
+    if (change.affiliation === "none") {
+      kind = actor && userId(actor) !== memberId ? "kick" : "leave";
+    } else if (known.has(memberId)) {
+      continue;
+    } else {
+      kind = "join";
+    }
+    events.push({
+      room,
+      kind,
+      memberJid: change.jid,
+      actor,
+      self: memberId === ownId,
+      timestamp,
+    });
+  }
+  return events;
+}
+
+// Apply a membership delta to a member list (affiliation "none" removes)
+export function applyMucLightAffiliations(
+  members: ElymentsGroupMember[],
+  changes: ElymentsGroupMember[],
+): ElymentsGroupMember[] {
+  const byJid = new Map(members.map((member) => [member.jid, member]));
+  for (const change of changes) {
+    if (change.affiliation === "none") {
+      byJid.delete(change.jid);
+    } else {
+      byJid.set(change.jid, change);
+    }
+  }
+  return Array.from(byJid.values());
+}
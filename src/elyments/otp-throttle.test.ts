@@ -0,0 +1,76 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { elymentsAccountEnv } from "./credentials.js";
+import {
+  formatCooldown,
+  getOtpCooldownMs,
+  recordOtpLockout,
+  recordOtpRequest,
+} from "./otp-throttle.js";
+
+const PHONE = "91:9876543210";
+
+describe("otp throttle", () => {
+  let home: string;
+  let env: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-otp-"));
+    env = { HOME: home };
+  });
+
+  afterEach(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it("allows the first request", () => {
+    expect(getOtpCooldownMs(PHONE, 0, env)).toBe(0);
+  });
+
+  it("doubles the cooldown for each request in the window", () => {
+    recordOtpRequest(PHONE, 0, env);
+    expect(getOtpCooldownMs(PHONE, 0, env)).toBe(30_000);
+    expect(getOtpCooldownMs(PHONE, 30_000, env)).toBe(0);
+
+    recordOtpRequest(PHONE, 30_000, env);
+    expect(getOtpCooldownMs(PHONE, 30_000, env)).toBe(60_000);
+  });
+
+  it("caps requests per hour", () => {
+    const times = [0, 60_000, 180_000, 600_000, 1_200_000];
+    for (const at of times) recordOtpRequest(PHONE, at, env);
+    // The cooldown after the 5th request is 8 minutes; the hourly cap is longer
+    expect(getOtpCooldownMs(PHONE, 1_800_000, env)).toBe(3_600_000 - 1_800_000);
+  });
+
+  it("tracks numbers separately", () => {
+    recordOtpRequest(PHONE, 0, env);
+    expect(getOtpCooldownMs("91:9000000000", 0, env)).toBe(0);
+  });
+
+  it("honours server lockouts", () => {
+    const now = Date.now();
+    recordOtpLockout(PHONE, now + 30 * 60_000, env);
+    expect(getOtpCooldownMs(PHONE, now, env)).toBe(30 * 60_000);
+  });
+
+  it("shares one log across accounts", () => {
+    recordOtpRequest(PHONE, 0, elymentsAccountEnv("work", env));
+    expect(getOtpCooldownMs(PHONE, 0, elymentsAccountEnv("personal", env))).toBe(30_000);
+  });
+
+  it.skipIf(process.platform === "win32")("writes the log owner-only", () => {
+    recordOtpRequest(PHONE, 0, env);
+    const logPath = path.join(home, ".clawdbot/credentials/elyments/otp-requests.json");
+    expect(fs.statSync(logPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("formats waits", () => {
+    expect(formatCooldown(45_000)).toBe("45s");
+    expect(formatCooldown(125_000)).toBe("2m 05s");
+    expect(formatCooldown(1)).toBe("1s");
+  });
+});
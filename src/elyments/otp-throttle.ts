@@ -0,0 +1,108 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+  elymentsAccountEnv,
+  ensureCredentialsDir,
+  getCredentialsDir,
+  writePrivateFile,
+} from "./credentials.js";
+
+const OTP_REQUESTS_FILE = "otp-requests.json";
+// First resend waits 30s, doubling per request within the window up to 10 minutes
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+const WINDOW_MS = 60 * 60_000;
+const MAX_REQUESTS_PER_WINDOW = 5;
+
+type OtpRequestHistory = {
+  requestedAt: number[];
+  // Server-imposed lockout (e.g. "try again after 30 minutes")
+  lockedUntil?: number;
+};
+
+type OtpRequestLog = Record<string, OtpRequestHistory>;
+
+// One log per machine, shared by all accounts, since Elyments throttles by number
+function getOtpRequestsPath(env: NodeJS.ProcessEnv): string {
+  return path.join(getCredentialsDir(elymentsAccountEnv(null, env)), OTP_REQUESTS_FILE);
+}
+
+function loadOtpRequestLog(env: NodeJS.ProcessEnv): OtpRequestLog {
+  try {
+    const filePath = getOtpRequestsPath(env);
+    if (!fs.existsSync(filePath)) return {};
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as OtpRequestLog;
+  } catch {
+    return {};
+  }
+}
+
+function saveOtpRequestLog(log: OtpRequestLog, env: NodeJS.ProcessEnv): void {
+  try {
+    ensureCredentialsDir(elymentsAccountEnv(null, env));
+    writePrivateFile(getOtpRequestsPath(env), JSON.stringify(log, null, 2));
+  } catch (err) {
+    console.warn(`[elyments] Failed to save OTP request log: ${String(err)}`);
+  }
+}
+
+function historyFor(log: OtpRequestLog, phoneKey: string, now: number): OtpRequestHistory {
+  const history = log[phoneKey] ?? { requestedAt: [] };
+  history.requestedAt = history.requestedAt.filter((at) => now - at < WINDOW_MS);
+  if (history.lockedUntil && history.lockedUntil <= now) delete history.lockedUntil;
+  return history;
+}
+
+// Milliseconds until another OTP may be requested for this number (0 = now)
+export function getOtpCooldownMs(
+  phoneKey: string,
+  now = Date.now(),
+  env: NodeJS.ProcessEnv = process.env,
+): number {
+  const history = historyFor(loadOtpRequestLog(env), phoneKey, now);
+  const waits = [history.lockedUntil ? history.lockedUntil - now : 0];
+
+  const count = history.requestedAt.length;
+  if (count > 0) {
+    const last = history.requestedAt[count - 1];
+    const cooldown = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (count - 1));
+    waits.push(last + cooldown - now);
+  }
+  if (count >= MAX_REQUESTS_PER_WINDOW) {
+    waits.push(history.requestedAt[count - MAX_REQUESTS_PER_WINDOW] + WINDOW_MS - now);
+  }
+  return Math.max(0, ...waits);
+}
+
+export function recordOtpRequest(
+  phoneKey: string,
+  now = Date.now(),
+  env: NodeJS.ProcessEnv = process.env,
+): void {
+  const log = loadOtpRequestLog(env);
+  const history = historyFor(log, phoneKey, now);
+  history.requestedAt.push(now);
+  log[phoneKey] = history;
+  saveOtpRequestLog(log, env);
+}
+
+export function recordOtpLockout(
+  phoneKey: string,
+  untilMs: number,
+  env: NodeJS.ProcessEnv = process.env,
+): void {
+  const log = loadOtpRequestLog(env);
+  const history = historyFor(log, phoneKey, Date.now());
+  history.lockedUntil = Math.max(history.lockedUntil ?? 0, untilMs);
+  log[phoneKey] = history;
+  saveOtpRequestLog(log, env);
+}
+
+// Human-readable wait, e.g. "45s" or "2m 05s"
+export function formatCooldown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds}s`;
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ElymentsRateLimiter, TokenBucket, type RateLimitHit } from "./rate-limit.js";
+
+describe("TokenBucket", () => {
+  it("allows a burst up to capacity, then waits for a refill", () => {
+    const bucket = new TokenBucket(2, 1 / 1_000, 0);
+    bucket.take(0);
+    bucket.take(0);
+    expect(bucket.waitTime(0)).toBe(1_000);
+    expect(bucket.waitTime(400)).toBe(600);
+    expect(bucket.waitTime(1_000)).toBe(0);
+  });
+
+  it("never refills past capacity", () => {
+    const bucket = new TokenBucket(2, 1 / 1_000, 0);
+    bucket.take(60_000);
+    bucket.take(60_000);
+    expect(bucket.waitTime(60_000)).toBe(1_000);
+  });
+});
+
+describe("ElymentsRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets a chat's burst through immediately", async () => {
+    const hits: RateLimitHit[] = [];
+    const limiter = new ElymentsRateLimiter({ perChatBurst: 3 }, (hit) => hits.push(hit));
+    for (let i = 0; i < 3; i += 1) await limiter.acquire("a@localhost");
+    expect(hits).toEqual([]);
+  });
+
+  it("delays a chat past its burst and reports the hit", async () => {
+    const hits: RateLimitHit[] = [];
+    const limiter = new ElymentsRateLimiter(
+      { perChatBurst: 1, perChatPerMinute: 60 },
+      (hit) => hits.push(hit),
+    );
+    await limiter.acquire("A@localhost");
+
+    let done = false;
+    const pending = limiter.acquire("a@localhost").then(() => {
+      done = true;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(done).toBe(true);
+    expect(hits).toEqual([{ chatJid: "a@localhost", scope: "chat", waitMs: 1_000 }]);
+  });
+
+  it("applies the global budget across chats", async () => {
+    const hits: RateLimitHit[] = [];
+    const limiter = new ElymentsRateLimiter(
+      { globalBurst: 2, globalPerMinute: 60 },
+      (hit) => hits.push(hit),
+    );
+    await limiter.acquire("a@localhost");
+    await limiter.acquire("b@localhost");
+
+    const pending = limiter.acquire("c@localhost");
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pending;
+    expect(hits).toEqual([{ chatJid: "c@localhost", scope: "global", waitMs: 1_000 }]);
+  });
+
+  it("does nothing when disabled", async () => {
+    const onLimited = vi.fn();
+    const limiter = new ElymentsRateLimiter({ enabled: false, perChatBurst: 1 }, onLimited);
+    for (let i = 0; i < 5; i += 1) await limiter.acquire("a@localhost");
+    expect(onLimited).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import type { ElymentsRateLimitConfig } from "../types.js";
+
+const DEFAULT_PER_CHAT_PER_MINUTE = 20;
+const DEFAULT_PER_CHAT_BURST = 5;
+const DEFAULT_GLOBAL_PER_MINUTE = 60;
+const DEFAULT_GLOBAL_BURST = 10;
+export const DEFAULT_CHUNK_DELAY_MS = 800;
+
+// Classic token bucket: holds up to `capacity` tokens, refilled continuously
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, refillPerMs: number, now = Date.now()) {
+    this.capacity = capacity;
+    this.refillPerMs = refillPerMs;
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  // Milliseconds until a token is available (0 = available now)
+  waitTime(now = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  take(now = Date.now()): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+export type RateLimitHit = {
+  chatJid: string;
+  scope: "chat" | "global";
+  waitMs: number;
+};
+
+// Per-chat and account-wide send budgets. Idle chat buckets are dropped once full again.
+export class ElymentsRateLimiter {
+  private global: TokenBucket;
+  private chats: Map<string, { bucket: TokenBucket; lastUsedAt: number }> = new Map();
+  private perChatBurst: number;
+  private perChatRefillPerMs: number;
+  private onLimited?: (hit: RateLimitHit) => void;
+  private enabled: boolean;
+
+  constructor(config?: ElymentsRateLimitConfig, onLimited?: (hit: RateLimitHit) => void) {
+    this.enabled = config?.enabled !== false;
+    this.onLimited = onLimited;
+    this.perChatBurst = config?.perChatBurst ?? DEFAULT_PER_CHAT_BURST;
+    this.perChatRefillPerMs = (config?.perChatPerMinute ?? DEFAULT_PER_CHAT_PER_MINUTE) / 60_000;
+    this.global = new TokenBucket(
+      config?.globalBurst ?? DEFAULT_GLOBAL_BURST,
+      (config?.globalPerMinute ?? DEFAULT_GLOBAL_PER_MINUTE) / 60_000,
+    );
+  }
+
+  // Wait until both the chat and the global budget allow one more message
+  async acquire(chatJid: string): Promise<void> {
+    if (!this.enabled) return;
+
+    const key = chatJid.toLowerCase();
+    for (;;) {
+      const now = Date.now();
+      const chat = this.chatBucket(key, now);
+      const chatWait = chat.waitTime(now);
+      const globalWait = this.global.waitTime(now);
+
+      if (chatWait === 0 && globalWait === 0) {
+        chat.take(now);
+        this.global.take(now);
+        return;
+      }
+
+      const scope = chatWait >= globalWait ? "chat" : "global";
+      const waitMs = Math.max(chatWait, globalWait);
+      this.onLimited?.({ chatJid: key, scope, waitMs });
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private chatBucket(key: string, now: number): TokenBucket {
+    this.pruneIdle(now);
+    let entry = this.chats.get(key);
+    if (!entry) {
+      const bucket = new TokenBucket(this.perChatBurst, this.perChatRefillPerMs, now);
+      entry = { bucket, lastUsedAt: now };
+      this.chats.set(key, entry);
+    }
+    entry.lastUsedAt = now;
+    return entry.bucket;
+  }
+
+  // A bucket idle long enough to refill completely is equivalent to a new one
+  private pruneIdle(now: number): void {
+    const refillMs = this.perChatBurst / this.perChatRefillPerMs;
+    for (const [key, entry] of this.chats) {
+      if (now - entry.lastUsedAt > refillMs) this.chats.delete(key);
+    }
+  }
+}
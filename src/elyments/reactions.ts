@@ -0,0 +1,50 @@
+import type { XmppElement } from "./xmpp.js";
+
+// XEP-0444 message reactions
+export const REACTIONS_NS = "urn:xmpp:reactions:0";
+
+// Reactions a sender currently has on a message (empty = all removed)
+export type ParsedReactions = {
+  targetId: string;
+  reactions: string[];
+};
+
+// Parse <reactions xmlns="urn:xmpp:reactions:0" id="..."/> from a message stanza
+export function parseReactionsElement(message: XmppElement): ParsedReactions | null {
+  const element = message.getChild("reactions", REACTIONS_NS);
+  const targetId = element?.attrs?.id?.trim();
+  if (!element || !targetId) return null;
+
+  const reactions = element
+    .getChildren("reaction")
+    .map((reaction) => reaction.text?.().trim() ?? "")
+    .filter(Boolean);
+
+  return { targetId, reactions: Array.from(new Set(reactions)) };
+}
+
+// Bounded set of ids of messages we sent, so reactions to them can be recognised
+export class RecentMessageIds {
+  private ids: Map<string, string> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  // Remember a sent message id and the chat it went to
+  add(id: string | undefined, jid: string): void {
+    if (!id) return;
+    this.ids.delete(id);
+    this.ids.set(id, jid);
+    while (this.ids.size > this.maxEntries) {
+      const oldest = this.ids.keys().next().value;
+      if (oldest === undefined) break;
+      this.ids.delete(oldest);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+}
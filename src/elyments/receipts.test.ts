@@ -0,0 +1,77 @@
+import { xml } from "@xmpp/client";
+import { describe, expect, it } from "vitest";
+
+import { CHAT_MARKERS_NS, DeliveryTracker, RECEIPTS_NS, parseReceipt } from "./receipts.js";
+import type { XmppElement } from "./xmpp.js";
+
+const message = (...children: unknown[]): XmppElement => {
+  const stanza = xml("message", { from: "alice@localhost/phone" }, ...(children as never[]));
+  return stanza as unknown as XmppElement;
+};
+
+describe("parseReceipt", () => {
+  it("reads XEP-0184 receipts and XEP-0333 markers", () => {
+    expect(parseReceipt(message(xml("received", { xmlns: RECEIPTS_NS, id: "m1" })))).toEqual({
+      kind: "delivered",
+      id: "m1",
+    });
+    expect(parseReceipt(message(xml("received", { xmlns: CHAT_MARKERS_NS, id: "m2" })))).toEqual({
+      kind: "delivered",
+      id: "m2",
+    });
+    expect(parseReceipt(message(xml("displayed", { xmlns: CHAT_MARKERS_NS, id: "m3" })))).toEqual({
+      kind: "displayed",
+      id: "m3",
+    });
+  });
+
+  it("ignores requests and id-less acks", () => {
+    expect(parseReceipt(message(xml("request", { xmlns: RECEIPTS_NS })))).toBeNull();
+    expect(parseReceipt(message(xml("received", { xmlns: RECEIPTS_NS })))).toBeNull();
+    expect(parseReceipt(message(xml("body", {}, "hi")))).toBeNull();
+  });
+});
+
+describe("DeliveryTracker", () => {
+  it("resolves any of a message's ids to one record", () => {
+    const tracker = new DeliveryTracker();
+    const record = tracker.track(["body1", undefined, "stanza1"], "alice@localhost", 100);
+    expect(record).toMatchObject({ id: "body1", state: "sent" });
+    expect(tracker.addId("stanza1", "archive1")).toBe(true);
+    expect(tracker.addId("unknown", "x")).toBe(false);
+
+    expect(tracker.update("archive1", "delivered", 200)).toBe(record);
+    expect(tracker.get("body1")).toMatchObject({ state: "delivered", updatedAt: 200 });
+    expect(tracker.track([undefined], "alice@localhost")).toBeNull();
+  });
+
+  it("only moves states forward", () => {
+    const tracker = new DeliveryTracker();
+    tracker.track(["m1"], "alice@localhost");
+    expect(tracker.update("m1", "displayed")).not.toBeNull();
+    // A late delivery receipt after the read marker changes nothing
+    expect(tracker.update("m1", "delivered")).toBeNull();
+    expect(tracker.update("m1", "failed")).toBeNull();
+    expect(tracker.get("m1")?.state).toBe("displayed");
+    expect(tracker.getStats()).toEqual({ delivered: 1, failed: 0 });
+  });
+
+  it("never marks a failed send delivered", () => {
+    const tracker = new DeliveryTracker();
+    tracker.track(["m1"], "alice@localhost");
+    expect(tracker.update("m1", "failed")).not.toBeNull();
+    expect(tracker.update("m1", "delivered")).toBeNull();
+    expect(tracker.getStats()).toEqual({ delivered: 0, failed: 1 });
+  });
+
+  it("forgets the oldest messages beyond its capacity", () => {
+    const tracker = new DeliveryTracker(2);
+    tracker.track(["a", "a2"], "x@localhost");
+    tracker.track(["b"], "x@localhost");
+    tracker.track(["c"], "x@localhost");
+    expect(tracker.get("a")).toBeUndefined();
+    expect(tracker.get("a2")).toBeUndefined();
+    expect(tracker.get("b")).toBeDefined();
+    expect(tracker.update("a", "delivered")).toBeNull();
+  });
+});
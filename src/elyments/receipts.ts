@@ -0,0 +1,115 @@
+import type { XmppElement } from "./xmpp.js";
+
+// XEP-0184 delivery receipts and XEP-0333 chat markers
+export const RECEIPTS_NS = "urn:xmpp:receipts";
+export const CHAT_MARKERS_NS = "urn:xmpp:chat-markers:0";
+
+export type DeliveryState = "sent" | "delivered" | "displayed" | "failed";
+
+// Receipt or marker acknowledging one of our messages
+export type ParsedReceipt = {
+  kind: "delivered" | "displayed";
+  id: string;
+};
+
+// Parse a <received/> receipt or <received/>/<displayed/> marker from a message stanza
+export function parseReceipt(message: XmppElement): ParsedReceipt | null {
+  const displayed = message.getChild("displayed", CHAT_MARKERS_NS)?.attrs?.id;
+  if (displayed) return { kind: "displayed", id: displayed };
+
+  const received =
+    message.getChild("received", RECEIPTS_NS)?.attrs?.id ??
+    message.getChild("received", CHAT_MARKERS_NS)?.attrs?.id;
+  if (received) return { kind: "delivered", id: received };
+
+  return null;
+}
+
+export type TrackedDelivery = {
+  id: string;
+  to: string;
+  sentAt: number;
+  state: DeliveryState;
+  updatedAt: number;
+};
+
+export type DeliveryStats = {
+  delivered: number;
+  failed: number;
+};
+
+const STATE_RANK: Record<DeliveryState, number> = {
+  sent: 0,
+  delivered: 1,
+  displayed: 2,
+  failed: 3,
+};
+
+// Per-message delivery state for recently sent messages. A message can be
+// acknowledged by its body id, its stanza id or (in groups) the archive id the
+// room assigned it, so all of them map to one record.
+export class DeliveryTracker {
+  private records: Map<string, TrackedDelivery> = new Map();
+  private order: TrackedDelivery[] = [];
+  private maxEntries: number;
+  private stats: DeliveryStats = { delivered: 0, failed: 0 };
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  // Start tracking a sent message under all of its ids
+  track(ids: Array<string | undefined>, to: string, sentAt = Date.now()): TrackedDelivery | null {
+    const keys = ids.filter((id): id is string => Boolean(id));
+    if (keys.length === 0) return null;
+
+    const record: TrackedDelivery = { id: keys[0], to, sentAt, state: "sent", updatedAt: sentAt };
+    for (const key of keys) this.records.set(key, record);
+    this.order.push(record);
+
+    while (this.order.length > this.maxEntries) {
+      const oldest = this.order.shift();
+      if (!oldest) break;
+      for (const [key, value] of this.records) {
+        if (value === oldest) this.records.delete(key);
+      }
+    }
+    return record;
+  }
+
+  // Record another id for a tracked message (e.g. the room's stanza-id)
+  addId(id: string, extraId: string): boolean {
+    const record = this.records.get(id);
+    if (!record) return false;
+    this.records.set(extraId, record);
+    return true;
+  }
+
+  // Advance a message's state; returns the record when the state changed
+  update(id: string, state: DeliveryState, at = Date.now()): TrackedDelivery | null {
+    const record = this.records.get(id);
+    if (!record) return null;
+
+    // States only move forward, and a failed send can't later be delivered
+    if (record.state === "failed") return null;
+    if (state !== "failed" && STATE_RANK[state] <= STATE_RANK[record.state]) return null;
+    if (state === "failed" && record.state !== "sent") return null;
+
+    if (state === "failed") {
+      this.stats.failed += 1;
+    } else if (record.state === "sent") {
+      this.stats.delivered += 1;
+    }
+    record.state = state;
+    record.updatedAt = at;
+    return record;
+  }
+
+  get(id: string): TrackedDelivery | undefined {
+    return this.records.get(id);
+  }
+
+  getStats(): DeliveryStats {
+    return { ...this.stats };
+  }
+}
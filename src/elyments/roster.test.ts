@@ -0,0 +1,81 @@
+import { xml } from "@xmpp/client";
+import { describe, expect, it } from "vitest";
+
+import type { ElymentsRosterItem } from "../types.js";
+import { ROSTER_NS, applyRosterItems, parseRosterItems } from "./roster.js";
+import type { XmppElement } from "./xmpp.js";
+
+const query = (...items: unknown[]) =>
+  xml("query", { xmlns: ROSTER_NS }, ...(items as never[])) as unknown as XmppElement;
+
+describe("parseRosterItems", () => {
+  it("reads contacts with names, groups and pending asks", () => {
+    const items = parseRosterItems(
+      query(
+        xml(
+          "item",
+          { jid: "Alice@localhost", name: " Alice ", subscription: "both" },
+          xml("group", {}, "Friends"),
+          xml("group", {}, " "),
+        ),
+        xml("item", { jid: "bob@localhost", subscription: "none", ask: "subscribe" }),
+      ),
+    );
+    expect(items).toEqual([
+      {
+        jid: "alice@localhost",
+        name: "Alice",
+        subscription: "both",
+        groups: ["Friends"],
+        ask: undefined,
+      },
+      {
+        jid: "bob@localhost",
+        name: undefined,
+        subscription: "none",
+        groups: [],
+        ask: "subscribe",
+      },
+    ]);
+  });
+
+  it("skips items without a JID and normalizes unknown subscriptions", () => {
+    const items = parseRosterItems(
+      query(
+        xml("item", { name: "ghost" }),
+        xml("item", { jid: "carol@localhost", subscription: "odd" }),
+      ),
+    );
+    expect(items.map((item) => [item.jid, item.subscription])).toEqual([
+      ["carol@localhost", "none"],
+    ]);
+  });
+
+  it("returns nothing without a query", () => {
+    expect(parseRosterItems(undefined)).toEqual([]);
+  });
+});
+
+describe("applyRosterItems", () => {
+  const contact = (jid: string, subscription: ElymentsRosterItem["subscription"]) => ({
+    jid,
+    subscription,
+    groups: [],
+  });
+
+  it("adds, replaces and removes contacts", () => {
+    const roster = new Map<string, ElymentsRosterItem>([
+      ["alice@localhost", contact("alice@localhost", "to")],
+      ["bob@localhost", contact("bob@localhost", "both")],
+    ]);
+    applyRosterItems(roster, [
+      contact("alice@localhost", "both"),
+      contact("bob@localhost", "remove"),
+      contact("carol@localhost", "from"),
+    ]);
+    expect(Array.from(roster.values())).toEqual([
+      contact("alice@localhost", "both"),
+      contact("carol@localhost", "from"),
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ElymentsRosterItem } from "../types.js";
+import type { XmppElement } from "./xmpp.js";
+
+export const ROSTER_NS = "jabber:iq:roster";
+
+const SUBSCRIPTIONS = new Set<ElymentsRosterItem["subscription"]>([
+  "none",
+  "to",
+  "from",
+  "both",
+  "remove",
+]);
+
+// Parse <query xmlns="jabber:iq:roster"/> items into typed contacts
+export function parseRosterItems(query: XmppElement | undefined): ElymentsRosterItem[] {
+  if (!query) return [];
+
+  const items: ElymentsRosterItem[] = [];
+  for (const item of query.getChildren("item")) {
+    const jid = item.attrs?.jid?.trim();
+    if (!jid) continue;
+
+    const rawSubscription = (item.attrs.subscription || "none") as ElymentsRosterItem["subscription"];
+    const groups = item
+      .getChildren("group")
+      .map((group) => group.text?.().trim() ?? "")
+      .filter(Boolean);
+
+    items.push({
+      jid: jid.toLowerCase(),
+      name: item.attrs.name?.trim() || undefined,
+      subscription: SUBSCRIPTIONS.has(rawSubscription) ? rawSubscription : "none",
+      groups,
+      ask: item.attrs.ask === "subscribe" ? "subscribe" : undefined,
+    });
+  }
+  return items;
+}
+
+// Apply a roster push to the current contact map (subscription="remove" deletes)
+export function applyRosterItems(
+  roster: Map<string, ElymentsRosterItem>,
+  items: ElymentsRosterItem[],
+): void {
+  for (const item of items) {
+    if (item.subscription === "remove") {
+      roster.delete(item.jid);
+    } else {
+      roster.set(item.jid, item);
+    }
+  }
+}
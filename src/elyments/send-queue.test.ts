@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ElymentsSendQueue, SendQueueError } from "./send-queue.js";
+import { XmppTimeoutError, XmppTransportError } from "./xmpp.js";
+
+describe("ElymentsSendQueue", () => {
+  let connected: boolean;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Jitter lands exactly on the base delay
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    connected = true;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createQueue = (config = {}) =>
+    new ElymentsSendQueue({
+      isConnected: () => connected,
+      config: { initialDelayMs: 1_000, ...config },
+    });
+
+  it("sends immediately while connected", async () => {
+    const queue = createQueue();
+    await expect(queue.enqueue("a@localhost", async () => "ok")).resolves.toBe("ok");
+    expect(queue.depth()).toBe(0);
+  });
+
+  it("keeps per-chat order", async () => {
+    const queue = createQueue();
+    const sent: number[] = [];
+    const pending = [1, 2, 3].map((n) =>
+      queue.enqueue("a@localhost", async () => {
+        // Earlier sends take longer; they still go out first
+        await new Promise((resolve) => setTimeout(resolve, 10 * (4 - n)));
+        sent.push(n);
+      }),
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(pending);
+    expect(sent).toEqual([1, 2, 3]);
+  });
+
+  it("holds sends while offline and releases them on resume", async () => {
+    connected = false;
+    const queue = createQueue();
+    const task = vi.fn(async () => "sent");
+    const pending = queue.enqueue("a@localhost", task);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(task).not.toHaveBeenCalled();
+    expect(queue.depth()).toBe(1);
+
+    connected = true;
+    queue.resume();
+    await expect(pending).resolves.toBe("sent");
+  });
+
+  it("expires sends that wait longer than the TTL", async () => {
+    connected = false;
+    const queue = createQueue({ ttlMs: 5_000 });
+    const dropped = vi.fn();
+    queue.on("dropped", dropped);
+    const pending = queue.enqueue("a@localhost", async () => "sent");
+    const assertion = expect(pending).rejects.toMatchObject({ reason: "expired" });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    await assertion;
+    expect(dropped).toHaveBeenCalledWith({
+      chatJid: "a@localhost",
+      reason: "expired",
+      attempts: 0,
+    });
+  });
+
+  it("retries timeouts with backoff up to maxAttempts", async () => {
+    const queue = createQueue({ maxAttempts: 3 });
+    const task = vi.fn(async () => {
+      throw new XmppTimeoutError("m1", 100);
+    });
+    const pending = queue.enqueue("a@localhost", task);
+    const assertion = expect(pending).rejects.toBeInstanceOf(XmppTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2_000);
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("succeeds when a retry goes through", async () => {
+    const queue = createQueue();
+    let calls = 0;
+    const pending = queue.enqueue("a@localhost", async () => {
+      calls += 1;
+      if (calls === 1) throw new XmppTimeoutError("m1", 100);
+      return "sent";
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(pending).resolves.toBe("sent");
+  });
+
+  it("retries sends the socket rejects while still connected", async () => {
+    const queue = createQueue();
+    const failures = [
+      new XmppTransportError(new Error("WebSocket is not open")),
+      Object.assign(new Error("write EPIPE"), { code: "EPIPE" }),
+    ];
+    const task = vi.fn(async () => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return "sent";
+    });
+    const pending = queue.enqueue("a@localhost", task);
+
+    await vi.advanceTimersByTimeAsync(3_000);
+    await expect(pending).resolves.toBe("sent");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry errors while the link is up", async () => {
+    const queue = createQueue();
+    const task = vi.fn(async () => {
+      throw new Error("forbidden");
+    });
+    await expect(queue.enqueue("a@localhost", task)).rejects.toThrow("forbidden");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects new sends when full", async () => {
+    connected = false;
+    const queue = createQueue({ maxDepth: 1 });
+    void queue.enqueue("a@localhost", async () => "first").catch(() => undefined);
+    await expect(queue.enqueue("b@localhost", async () => "second")).rejects.toMatchObject({
+      reason: "full",
+    });
+  });
+
+  it("rejects pending and new sends after close", async () => {
+    connected = false;
+    const queue = createQueue();
+    const pending = queue.enqueue("a@localhost", async () => "sent");
+    queue.close();
+    await expect(pending).rejects.toBeInstanceOf(SendQueueError);
+    await expect(queue.enqueue("a@localhost", async () => "sent")).rejects.toMatchObject({
+      reason: "closed",
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { EventEmitter } from "node:events";
+import type { ElymentsSendQueueConfig } from "../types.js";
+import { computeBackoffDelay, resolveBackoffPolicy, type BackoffPolicy } from "./backoff.js";
+import { XmppTimeoutError, XmppTransportError } from "./xmpp.js";
+
+export const DEFAULT_SEND_RETRY_BACKOFF: BackoffPolicy = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+const DEFAULT_SEND_TTL_MS = 5 * 60_000;
+const DEFAULT_SEND_MAX_ATTEMPTS = 5;
+const DEFAULT_SEND_MAX_DEPTH = 500;
+
+// Why a queued send was given up on without being attempted to completion
+export class SendQueueError extends Error {
+  readonly reason: "expired" | "full" | "closed";
+
+  constructor(reason: SendQueueError["reason"], message: string) {
+    super(message);
+    this.name = "SendQueueError";
+    this.reason = reason;
+  }
+}
+
+type QueuedSend = {
+  chatJid: string;
+  task: () => Promise<unknown>;
+  enqueuedAt: number;
+  attempts: number;
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+};
+
+export type SendQueueEvents = {
+  depth: [number];
+  dropped: [{ chatJid: string; reason: SendQueueError["reason"]; attempts: number }];
+};
+
+export type ElymentsSendQueueOptions = {
+  isConnected: () => boolean;
+  config?: ElymentsSendQueueConfig;
+};
+
+// Per-chat FIFO of outbound sends. Jobs wait while the link is down, retry
+// transport failures with backoff and expire after a TTL; chats drain independently.
+// Delivery is at-most-once per attempt, not per message: anything the server answered
+// (including stanza errors) is never re-sent, but a write that fails at the socket is
+// retried, so if it did reach the server before the link broke the chat sees it twice.
+export class ElymentsSendQueue extends EventEmitter<SendQueueEvents> {
+  private chats: Map<string, QueuedSend[]> = new Map();
+  private draining: Set<string> = new Set();
+  private waiters: Set<() => void> = new Set();
+  private isConnected: () => boolean;
+  private backoff: BackoffPolicy;
+  private ttlMs: number;
+  private maxAttempts: number;
+  private maxDepth: number;
+  private closed = false;
+
+  constructor(options: ElymentsSendQueueOptions) {
+    super();
+    const config = options.config;
+    this.isConnected = options.isConnected;
+    this.backoff = resolveBackoffPolicy(config, DEFAULT_SEND_RETRY_BACKOFF);
+    this.ttlMs = config?.ttlMs ?? DEFAULT_SEND_TTL_MS;
+    this.maxAttempts = Math.max(1, config?.maxAttempts ?? DEFAULT_SEND_MAX_ATTEMPTS);
+    this.maxDepth = config?.maxDepth ?? DEFAULT_SEND_MAX_DEPTH;
+  }
+
+  // Queue a send for a chat; resolves with the task's result once it goes out
+  enqueue<T>(chatJid: string, task: () => Promise<T>): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new SendQueueError("closed", "Elyments send queue is closed"));
+    }
+    if (this.depth() >= this.maxDepth) {
+      this.emit("dropped", { chatJid, reason: "full", attempts: 0 });
+      return Promise.reject(
+        new SendQueueError("full", `Elyments send queue is full (${this.maxDepth} pending)`),
+      );
+    }
+
+    const key = chatJid.toLowerCase();
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.chats.get(key) ?? [];
+      queue.push({
+        chatJid: key,
+        task,
+        enqueuedAt: Date.now(),
+        attempts: 0,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.chats.set(key, queue);
+      this.emit("depth", this.depth());
+      void this.drain(key);
+    });
+  }
+
+  // Number of sends waiting or in flight
+  depth(): number {
+    let total = 0;
+    for (const queue of this.chats.values()) total += queue.length;
+    return total;
+  }
+
+  // Wake waiting jobs (call when the connection comes back)
+  resume(): void {
+    const waiters = Array.from(this.waiters);
+    this.waiters.clear();
+    for (const wake of waiters) wake();
+  }
+
+  // Accept sends again after close()
+  open(): void {
+    this.closed = false;
+  }
+
+  // Reject everything pending and refuse new sends
+  close(): void {
+    this.closed = true;
+    this.resume();
+  }
+
+  private async drain(chatJid: string): Promise<void> {
+    if (this.draining.has(chatJid)) return;
+    this.draining.add(chatJid);
+    try {
+      let queue = this.chats.get(chatJid);
+      while (queue && queue.length > 0) {
+        await this.run(queue[0]);
+        queue.shift();
+        if (queue.length === 0) this.chats.delete(chatJid);
+        this.emit("depth", this.depth());
+        queue = this.chats.get(chatJid);
+      }
+    } finally {
+      this.draining.delete(chatJid);
+    }
+  }
+
+  private async run(job: QueuedSend): Promise<void> {
+    for (;;) {
+      if (this.closed) {
+        this.give(job, new SendQueueError("closed", "Elyments client stopped before send"));
+        return;
+      }
+
+      const remainingMs = job.enqueuedAt + this.ttlMs - Date.now();
+      if (remainingMs <= 0) {
+        this.give(
+          job,
+          new SendQueueError("expired", `Elyments message to ${job.chatJid} expired in queue`),
+        );
+        return;
+      }
+
+      if (!this.isConnected()) {
+        await this.wait(remainingMs);
+        continue;
+      }
+
+      try {
+        job.resolve(await job.task());
+        return;
+      } catch (err) {
+        job.attempts += 1;
+        // Failures while the link is up (e.g. stanza errors) won't fix themselves
+        const retryable = isTransportError(err) || !this.isConnected();
+        if (!retryable || job.attempts >= this.maxAttempts) {
+          job.reject(err instanceof Error ? err : new Error(String(err)));
+          return;
+        }
+        await this.wait(Math.min(remainingMs, computeBackoffDelay(this.backoff, job.attempts)));
+      }
+    }
+  }
+
+  private give(job: QueuedSend, err: SendQueueError): void {
+    this.emit("dropped", { chatJid: job.chatJid, reason: err.reason, attempts: job.attempts });
+    job.reject(err);
+  }
+
+  // Sleep until the timeout, resume() or close()
+  private wait(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.waiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      this.waiters.add(wake);
+    });
+  }
+}
+
+// Timeouts, socket write failures and raw socket errors (ECONNRESET, EPIPE, ...)
+function isTransportError(err: unknown): boolean {
+  if (err instanceof XmppTimeoutError || err instanceof XmppTransportError) return true;
+  const code = (err as NodeJS.ErrnoException | null)?.code;
+  return typeof code === "string" && /^E[A-Z]+$/.test(code);
+}
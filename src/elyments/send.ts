@@ -1,12 +1,14 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as crypto from "node:crypto";
-import type { ElymentsMediaInfo } from "../types.js";
+import type { ElymentsGroupMetadata, ElymentsMediaInfo } from "../types.js";
 import { ELYMENTS_ENDPOINTS } from "../types.js";
 import { getSharedElymentsClient } from "./client.js";
 import { withAutoRefresh } from "./auth.js";
-import { loadElymentsProfile } from "./credentials.js";
+import { elymentsAccountEnv, loadElymentsProfile } from "./credentials.js";
 import { formatDirectJid, formatGroupJid, isElymentsGroup } from "./xmpp.js";
+import type { ElymentsQuote } from "./codec.js";
+import { readImageDimensions, resolveMediaType, resolveMimeType } from "./media.js";
 
 export type SendMessageResult = {
   messageId: string;
@@ -20,33 +22,109 @@ export async function sendMessageElyments(
   opts?: {
     senderName?: string;
     mediaUrl?: string;
+    // Quote this message (media messages are sent without the quote)
+    replyTo?: ElymentsQuote;
+    accountId?: string | null;
   },
 ): Promise<SendMessageResult> {
-  const client = getSharedElymentsClient();
+  const client = getSharedElymentsClient(opts?.accountId);
 
-  if (!client.isConnected()) {
+  // While the monitor is reconnecting, sends are queued instead of failing
+  if (!client.isRunning()) {
     throw new Error("Elyments client not connected");
   }
 
   const jid = resolveTargetJid(to);
-  const senderName = opts?.senderName || getSenderName();
+  const env = elymentsAccountEnv(opts?.accountId);
+  const senderName = opts?.senderName || getSenderName(env);
 
   let messageId: string;
 
   if (opts?.mediaUrl) {
     // Upload media and send
-    const media = await uploadMedia(opts.mediaUrl);
+    const media = await uploadMedia(opts.mediaUrl, env);
     messageId = await client.sendMedia(jid, media, text, senderName);
   } else {
-    messageId = await client.sendText(jid, text, senderName);
+    messageId = await client.sendText(jid, text, senderName, opts?.replyTo);
   }
 
   return { messageId, to: jid };
 }
 
+// React to a message (an empty emoji or remove=true clears our reaction)
+export async function sendReactionElyments(
+  to: string,
+  messageId: string,
+  emoji: string,
+  opts?: { remove?: boolean; accountId?: string | null },
+): Promise<void> {
+  const client = getSharedElymentsClient(opts?.accountId);
+
+  if (!client.isConnected()) {
+    throw new Error("Elyments client not connected");
+  }
+
+  await client.sendReaction(resolveTargetJid(to), messageId, emoji, { remove: opts?.remove });
+}
+
+// Create a group with the given members (we become its owner)
+export async function createGroupElyments(
+  name: string,
+  members: string[],
+  opts?: { accountId?: string | null },
+): Promise<ElymentsGroupMetadata> {
+  const client = getSharedElymentsClient(opts?.accountId);
+
+  if (!client.isConnected()) {
+    throw new Error("Elyments client not connected");
+  }
+
+  return await client.createGroup(name, members.map(stripTargetPrefix));
+}
+
+// Add or remove group members
+export async function updateGroupMembersElyments(
+  group: string,
+  members: string[],
+  opts: { remove?: boolean; accountId?: string | null } = {},
+): Promise<void> {
+  const client = getSharedElymentsClient(opts.accountId);
+
+  if (!client.isConnected()) {
+    throw new Error("Elyments client not connected");
+  }
+
+  const groupJid = resolveGroupTargetJid(group);
+  const memberTargets = members.map(stripTargetPrefix);
+  if (opts.remove) {
+    await client.removeGroupMembers(groupJid, memberTargets);
+  } else {
+    await client.addGroupMembers(groupJid, memberTargets);
+  }
+}
+
+// Rename a group
+export async function renameGroupElyments(
+  group: string,
+  name: string,
+  opts?: { accountId?: string | null },
+): Promise<void> {
+  const client = getSharedElymentsClient(opts?.accountId);
+
+  if (!client.isConnected()) {
+    throw new Error("Elyments client not connected");
+  }
+
+  await client.renameGroup(resolveGroupTargetJid(group), name);
+}
+
 // Send typing indicator
-export async function sendTypingElyments(to: string, typing: boolean): Promise<void> {
-  const client = getSharedElymentsClient();
+export async function sendTypingElyments(
+  to: string,
+  typing: boolean,
+  accountId?: string | null,
+): Promise<void> {
+  const client = getSharedElymentsClient(accountId);
 
   if (!client.isConnected()) return;
 
@@ -84,14 +162,26 @@ function resolveTargetJid(target: string): string {
   return formatDirectJid(trimmed);
 }
 
+// Resolve a group target; bare ids are group ids here, not user ids
+function resolveGroupTargetJid(target: string): string {
+  const trimmed = stripTargetPrefix(target);
+  if (trimmed.includes("@")) return trimmed;
+  return formatGroupJid(trimmed.replace(/^group:/i, ""));
+}
+
+// Drop "elyments:" / "user:" prefixes; names and ids are resolved by the client
+function stripTargetPrefix(target: string): string {
+  return target.trim().replace(/^elyments:/i, "").replace(/^user:/i, "").trim();
+}
+
 // Get sender name
-function getSenderName(): string {
-  const profile = loadElymentsProfile();
+function getSenderName(env?: NodeJS.ProcessEnv): string {
+  const profile = loadElymentsProfile(env);
   return profile?.senderName || process.env.ELYMENTS_SENDER_NAME || "Clawdbot";
 }
 
 // Upload media and get URL
-async function uploadMedia(localPath: string): Promise<ElymentsMediaInfo> {
+async function uploadMedia(localPath: string, env?: NodeJS.ProcessEnv): Promise<ElymentsMediaInfo> {
   return await withAutoRefresh(async (session) => {
     // Read file
     const buffer = fs.readFileSync(localPath);
@@ -115,6 +205,8 @@ async function uploadMedia(localPath: string): Promise<ElymentsMediaInfo> {
       body: buffer,
     });
 
+    const dimensions = mediaType === "image" ? readImageDimensions(buffer) : null;
+
     return {
       type: mediaType,
       url: uploadUrl.url,
@@ -122,8 +214,9 @@ async function uploadMedia(localPath: string): Promise<ElymentsMediaInfo> {
       name: filename,
       size: buffer.length,
       mimeType,
+      ...(dimensions ?? {}),
     };
-  });
+  }, env);
 }
 
 // Get upload URL from Elyments API
@@ -172,58 +265,6 @@ async function getUploadUrl(
   };
 }
 
-// Resolve media type from extension
-function resolveMediaType(ext: string): ElymentsMediaInfo["type"] {
-  switch (ext) {
-    case "jpg":
-    case "jpeg":
-    case "png":
-    case "gif":
-    case "webp":
-      return "image";
-    case "mp4":
-    case "webm":
-    case "mov":
-    case "avi":
-      return "video";
-    case "mp3":
-    case "ogg":
-    case "wav":
-    case "m4a":
-    case "aac":
-      return "audio";
-    default:
-      return "document";
-  }
-}
-
-// Resolve MIME type from extension
-function resolveMimeType(ext: string): string {
-  const mimeTypes: Record<string, string> = {
-    jpg: "image/jpeg",
-    jpeg: "image/jpeg",
-    png: "image/png",
-    gif: "image/gif",
-    webp: "image/webp",
-    mp4: "video/mp4",
-    webm: "video/webm",
-    mov: "video/quicktime",
-    avi: "video/x-msvideo",
-    mp3: "audio/mpeg",
-    ogg: "audio/ogg",
-    wav: "audio/wav",
-    m4a: "audio/mp4",
-    aac: "audio/aac",
-    pdf: "application/pdf",
-    doc: "application/msword",
-    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    xls: "application/vnd.ms-excel",
-    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    txt: "text/plain",
-  };
-  return mimeTypes[ext] || "application/octet-stream";
-}
-
 // Normalize target for messaging
 export function normalizeElymentsTarget(raw: string): string | undefined {
   let normalized = raw.trim();
@@ -0,0 +1,100 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { ensureCredentialsDir, getCredentialsDir, writePrivateFile } from "./credentials.js";
+
+const SYNC_STATE_FILE = "sync-state.json";
+const SAVE_DEBOUNCE_MS = 2_000;
+
+// Last message seen in a chat
+export type ElymentsChatCursor = {
+  stanzaId?: string;
+  timestamp: number;
+};
+
+// Persisted sync position used to backfill missed messages after downtime
+export type ElymentsSyncState = {
+  version: 1;
+  lastSeenAt?: number;
+  chats: Record<string, ElymentsChatCursor>;
+};
+
+export function loadElymentsSyncState(env?: NodeJS.ProcessEnv): ElymentsSyncState {
+  try {
+    const filePath = path.join(getCredentialsDir(env), SYNC_STATE_FILE);
+    if (!fs.existsSync(filePath)) return { version: 1, chats: {} };
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<ElymentsSyncState>;
+    return {
+      version: 1,
+      lastSeenAt: typeof parsed.lastSeenAt === "number" ? parsed.lastSeenAt : undefined,
+      chats: parsed.chats && typeof parsed.chats === "object" ? parsed.chats : {},
+    };
+  } catch {
+    return { version: 1, chats: {} };
+  }
+}
+
+export function saveElymentsSyncState(state: ElymentsSyncState, env?: NodeJS.ProcessEnv): void {
+  const dir = ensureCredentialsDir(env);
+  const filePath = path.join(dir, SYNC_STATE_FILE);
+  writePrivateFile(filePath, JSON.stringify(state, null, 2));
+}
+
+// In-memory sync state with debounced persistence
+export class ElymentsSyncStateStore {
+  private state: ElymentsSyncState;
+  private env?: NodeJS.ProcessEnv;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(env?: NodeJS.ProcessEnv) {
+    this.env = env;
+    this.state = loadElymentsSyncState(env);
+  }
+
+  // Copy of the current state (cursors won't move while a backfill runs)
+  snapshot(): ElymentsSyncState {
+    return {
+      version: 1,
+      lastSeenAt: this.state.lastSeenAt,
+      chats: { ...this.state.chats },
+    };
+  }
+
+  // Record a message as seen in a chat; older messages never move the cursor back
+  recordSeen(chatJid: string, cursor: ElymentsChatCursor): void {
+    const key = chatJid.toLowerCase();
+    const existing = this.state.chats[key];
+    if (!existing || cursor.timestamp >= existing.timestamp) {
+      this.state.chats[key] = cursor;
+    }
+    if (!this.state.lastSeenAt || cursor.timestamp > this.state.lastSeenAt) {
+      this.state.lastSeenAt = cursor.timestamp;
+    }
+    this.scheduleSave();
+  }
+
+  // Advance the global "last seen" time (e.g. when the connection drops)
+  markSeen(at: number): void {
+    if (!this.state.lastSeenAt || at > this.state.lastSeenAt) {
+      this.state.lastSeenAt = at;
+      this.scheduleSave();
+    }
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      saveElymentsSyncState(this.state, this.env);
+    } catch (err) {
+      console.error(`[elyments] failed to save sync state: ${String(err)}`);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref?.();
+  }
+}
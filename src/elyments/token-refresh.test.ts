@@ -0,0 +1,105 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { saveElymentsSession } from "./credentials.js";
+import { ElymentsTokenRefresher, resolveSessionExpiry } from "./token-refresh.js";
+
+// Unsigned JWT carrying just an exp claim
+function jwt(expiresAt: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "none" })}.${encode({ exp: Math.floor(expiresAt / 1000) })}.sig`;
+}
+
+describe("resolveSessionExpiry", () => {
+  it("uses the earlier of the two tokens", () => {
+    const session = {
+      userId: "u1",
+      accessToken: jwt(2_000_000),
+      chatAccessToken: jwt(1_000_000),
+      refreshToken: "refresh",
+      savedAt: 0,
+    };
+    expect(resolveSessionExpiry(session)).toBe(1_000_000);
+    expect(resolveSessionExpiry({ ...session, accessToken: "a", chatAccessToken: "b" })).toBeNull();
+  });
+});
+
+describe("ElymentsTokenRefresher", () => {
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), "elyments-refresh-"));
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it("asks for a login when there is no session", () => {
+    const refresher = new ElymentsTokenRefresher({ HOME: home });
+    const relogin = vi.fn();
+    refresher.on("reloginRequired", relogin);
+    refresher.start();
+    expect(relogin).toHaveBeenCalledWith({ error: "No Elyments session found" });
+  });
+
+  it("schedules ahead of expiry", () => {
+    const expiresAt = Date.now() + 60 * 60_000;
+    const env = { HOME: home };
+    saveElymentsSession(
+      {
+        userId: "u1",
+        accessToken: jwt(expiresAt),
+        chatAccessToken: jwt(expiresAt),
+        refreshToken: "r",
+        savedAt: 0,
+      },
+      env,
+    );
+    const refresher = new ElymentsTokenRefresher(env, { leadMs: 10 * 60_000 });
+    const scheduled = vi.fn();
+    refresher.on("scheduled", scheduled);
+    refresher.start();
+    refresher.stop();
+    expect(scheduled).toHaveBeenCalledWith({
+      at: Math.floor(expiresAt / 1000) * 1000 - 10 * 60_000,
+      expiresAt: Math.floor(expiresAt / 1000) * 1000,
+    });
+  });
+
+  it("reports and retries when the stored session can't be read", async () => {
+    const expiresAt = Date.now() + 60 * 60_000;
+    const env: NodeJS.ProcessEnv = { HOME: home, ELYMENTS_CREDENTIALS_PASSPHRASE: "right" };
+    saveElymentsSession(
+      {
+        userId: "u1",
+        accessToken: jwt(expiresAt),
+        chatAccessToken: jwt(expiresAt),
+        refreshToken: "r",
+        savedAt: 0,
+      },
+      env,
+    );
+    const refresher = new ElymentsTokenRefresher(env);
+    const errors: Error[] = [];
+    refresher.on("error", (err) => errors.push(err));
+    refresher.start();
+
+    // The key changes under a running gateway
+    env.ELYMENTS_CREDENTIALS_PASSPHRASE = "wrong";
+    await vi.advanceTimersByTimeAsync(55 * 60_000);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch(/attempt 1/);
+
+    // Still scheduled: the next attempt fails the same way instead of going quiet
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(errors).toHaveLength(2);
+    refresher.stop();
+  });
+});
@@ -0,0 +1,146 @@
+import { EventEmitter } from "node:events";
+import type { ElymentsSession, ElymentsTokenRefreshConfig } from "../types.js";
+import { refreshSession } from "./auth.js";
+import { computeBackoffDelay, type BackoffPolicy } from "./backoff.js";
+import { getTokenExpiry, loadElymentsSession } from "./credentials.js";
+
+const DEFAULT_REFRESH_LEAD_MS = 5 * 60_000;
+// Tokens without an exp claim are re-checked this often
+const UNKNOWN_EXPIRY_RECHECK_MS = 60 * 60_000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const REFRESH_RETRY_BACKOFF: BackoffPolicy = {
+  initialDelayMs: 5_000,
+  maxDelayMs: 5 * 60_000,
+  factor: 2,
+  jitter: 0.2,
+};
+
+export type TokenRefreshEvents = {
+  refreshed: [{ session: ElymentsSession; expiresAt: number | null }];
+  scheduled: [{ at: number; expiresAt: number | null }];
+  reloginRequired: [{ error: string }];
+  error: [Error];
+};
+
+// Earliest expiry across the HTTP access token and the XMPP chat token
+export function resolveSessionExpiry(session: ElymentsSession): number | null {
+  const expiries = [getTokenExpiry(session.accessToken), getTokenExpiry(session.chatAccessToken)]
+    .filter((value): value is number => value !== null);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
+
+// Refreshes the stored session ahead of token expiry. Transient failures retry
+// with backoff; a rejected refresh token stops the scheduler until restart.
+export class ElymentsTokenRefresher extends EventEmitter<TokenRefreshEvents> {
+  private env: NodeJS.ProcessEnv;
+  private leadMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private failures = 0;
+
+  constructor(env: NodeJS.ProcessEnv, config?: ElymentsTokenRefreshConfig) {
+    super();
+    this.env = env;
+    this.leadMs = config?.leadMs ?? DEFAULT_REFRESH_LEAD_MS;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.failures = 0;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  // Plan the next refresh from the session currently on disk
+  schedule(): void {
+    if (!this.running) return;
+    const session = loadElymentsSession(this.env);
+    if (!session) {
+      this.stop();
+      this.emit("reloginRequired", { error: "No Elyments session found" });
+      return;
+    }
+
+    const expiresAt = resolveSessionExpiry(session);
+    const at = expiresAt === null ? Date.now() + UNKNOWN_EXPIRY_RECHECK_MS : expiresAt - this.leadMs;
+    this.setTimer(Math.max(0, at - Date.now()));
+    this.emit("scheduled", { at: Math.max(at, Date.now()), expiresAt });
+  }
+
+  // Timer entry point; nothing may escape as an unhandled rejection
+  private async refresh(): Promise<void> {
+    try {
+      await this.refreshOnce();
+    } catch (err) {
+      // e.g. ElymentsCredentialsKeyError while reading the stored session
+      if (!this.running) return;
+      this.retryLater(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private async refreshOnce(): Promise<void> {
+    const session = loadElymentsSession(this.env);
+    const expiresAt = session ? resolveSessionExpiry(session) : null;
+    // Re-checked tokens without exp (or already refreshed elsewhere) need no call yet
+    if (session && (expiresAt === null || expiresAt - this.leadMs > Date.now())) {
+      this.schedule();
+      return;
+    }
+
+    let result: Awaited<ReturnType<typeof refreshSession>>;
+    try {
+      result = await refreshSession(this.env);
+    } catch (err) {
+      result = { success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    if (!this.running) return;
+
+    if (result.success && result.session) {
+      this.failures = 0;
+      this.emit("refreshed", {
+        session: result.session,
+        expiresAt: resolveSessionExpiry(result.session),
+      });
+      this.schedule();
+      return;
+    }
+
+    const error = result.error || "Token refresh failed";
+    if (result.reloginRequired) {
+      this.stop();
+      this.emit("reloginRequired", { error });
+      return;
+    }
+
+    this.retryLater(error);
+  }
+
+  private retryLater(error: string): void {
+    this.failures += 1;
+    this.emit("error", new Error(`Token refresh failed (attempt ${this.failures}): ${error}`));
+    this.setTimer(computeBackoffDelay(REFRESH_RETRY_BACKOFF, this.failures));
+  }
+
+  private setTimer(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, Math.min(delayMs, MAX_TIMER_MS));
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,569 @@
+import { EventEmitter } from "node:events";
+import { xml } from "@xmpp/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ElymentsSession } from "../types.js";
+import { decodeElymentsBody } from "./codec.js";
+import {
+  MUC_LIGHT_AFFILIATIONS_NS,
+  MUC_LIGHT_CONFIGURATION_NS,
+  MUC_LIGHT_CREATE_NS,
+  parseMucLightUsers,
+} from "./muc-light.js";
+import { ROSTER_NS } from "./roster.js";
+import {
+  ElymentsXmppClient,
+  XmppStanzaError,
+  XmppTimeoutError,
+  XmppTransportError,
+  type XmppElement,
+} from "./xmpp.js";
+
+// Stand-in for the xmpp.js client: records sends and answers IQs through `respond`
+class FakeXmpp extends EventEmitter {
+  sent: XmppElement[] = [];
+  respond: (iq: XmppElement) => XmppElement | null = (iq) =>
+    xml("iq", { type: "result", id: iq.attrs.id }) as unknown as XmppElement;
+
+  async stop(): Promise<void> {}
+
+  async send(stanza: XmppElement): Promise<void> {
+    this.sent.push(stanza);
+    if (stanza.name !== "iq") return;
+    const reply = this.respond(stanza);
+    if (reply) queueMicrotask(() => this.receive(reply));
+  }
+
+  receive(stanza: unknown): void {
+    this.emit("stanza", stanza);
+  }
+}
+
+// Wire a client to the fake as if connect() had gone through
+function attach(client: ElymentsXmppClient, xmpp: FakeXmpp): void {
+  const internals = client as unknown as {
+    xmpp: FakeXmpp;
+    connected: boolean;
+    handleStanza(stanza: unknown): void;
+  };
+  internals.xmpp = xmpp;
+  internals.connected = true;
+  xmpp.on("stanza", (stanza) => internals.handleStanza(stanza));
+}
+
+const el = (element: unknown) => element as XmppElement;
+
+const session: ElymentsSession = {
+  userId: "bot",
+  accessToken: "access",
+  chatAccessToken: "chat",
+  refreshToken: "refresh",
+  savedAt: 1,
+};
+
+describe("ElymentsXmppClient", () => {
+  let xmpp: FakeXmpp;
+  let client: ElymentsXmppClient;
+
+  beforeEach(() => {
+    xmpp = new FakeXmpp();
+    client = new ElymentsXmppClient(session, "test");
+    attach(client, xmpp);
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("ping watchdog", () => {
+    const startPing = async (ping = { intervalMs: 1_000, timeoutMs: 500, maxMissed: 2 }) => {
+      vi.useFakeTimers();
+      client = new ElymentsXmppClient(session, "test", { ping });
+      attach(client, xmpp);
+      await (client as unknown as { startPing(): Promise<void> }).startPing();
+    };
+
+    it("drops the connection after too many missed pongs", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      xmpp.respond = () => null;
+      const stop = vi.spyOn(xmpp, "stop");
+      const timeouts = vi.fn();
+      const disconnected = vi.fn();
+      await startPing();
+      client.on("pingTimeout", timeouts);
+      client.on("disconnected", disconnected);
+
+      await vi.advanceTimersByTimeAsync(1_500);
+      expect(timeouts).toHaveBeenLastCalledWith({ missed: 1 });
+      expect(client.isConnected()).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(timeouts).toHaveBeenLastCalledWith({ missed: 2 });
+      expect(disconnected).toHaveBeenCalledWith({ reason: "ping timeout" });
+      expect(client.isConnected()).toBe(false);
+      expect(stop).toHaveBeenCalled();
+
+      // The watchdog stops with the connection
+      const sent = xmpp.sent.length;
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(xmpp.sent).toHaveLength(sent);
+    });
+
+    it("resets the miss count when a pong arrives", async () => {
+      let answer = false;
+      const respond = xmpp.respond;
+      xmpp.respond = (iq) => (answer ? respond(iq) : null);
+      await startPing();
+      const pongs = vi.fn();
+      const timeouts = vi.fn();
+      client.on("pong", pongs);
+      client.on("pingTimeout", timeouts);
+
+      await vi.advanceTimersByTimeAsync(1_500);
+      expect(timeouts).toHaveBeenCalledTimes(1);
+      answer = true;
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(pongs).toHaveBeenCalledTimes(1);
+      expect(client.getPingRttMs()).toBe(0);
+
+      // Another miss starts counting from one again
+      answer = false;
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(timeouts).toHaveBeenLastCalledWith({ missed: 1 });
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it("treats an error reply as proof of life", async () => {
+      xmpp.respond = (iq) =>
+        el(
+          xml(
+            "iq",
+            { type: "error", id: iq.attrs.id },
+            xml(
+              "error",
+              { type: "cancel" },
+              xml("service-unavailable", { xmlns: "urn:ietf:params:xml:ns:xmpp-stanzas" }),
+            ),
+          ),
+        );
+      await startPing();
+      const pongs = vi.fn();
+      client.on("pong", pongs);
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(pongs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("IQ correlation", () => {
+    const get = (attrs: Record<string, string> = {}) =>
+      xml("iq", { type: "get", ...attrs }, xml("query", { xmlns: "jabber:iq:version" }));
+
+    it("resolves with the matching reply", async () => {
+      xmpp.respond = (iq) =>
+        el(xml("iq", { type: "result", id: iq.attrs.id, from: "G1@muclight.localhost" }));
+      const reply = await client.sendIq(get({ to: "g1@muclight.localhost" }));
+      expect(reply.attrs.type).toBe("result");
+    });
+
+    it("rejects error replies with the stanza condition", async () => {
+      xmpp.respond = (iq) =>
+        el(
+          xml(
+            "iq",
+            { type: "error", id: iq.attrs.id },
+            xml(
+              "error",
+              { type: "cancel" },
+              xml("item-not-found", { xmlns: "urn:ietf:params:xml:ns:xmpp-stanzas" }),
+            ),
+          ),
+        );
+      const error = await client.sendIq(get()).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(XmppStanzaError);
+      expect(error).toMatchObject({ condition: "item-not-found", errorType: "cancel" });
+    });
+
+    it("accepts replies from our server or account to requests without a target", async () => {
+      for (const from of ["localhost", "bot@localhost", "bot@localhost/test", undefined]) {
+        xmpp.respond = (iq) =>
+          el(xml("iq", { type: "result", id: iq.attrs.id, ...(from ? { from } : {}) }));
+        await expect(client.sendIq(get())).resolves.toBeDefined();
+      }
+    });
+
+    it("ignores replies from anyone else and times out", async () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      xmpp.respond = (iq) =>
+        el(xml("iq", { type: "result", id: iq.attrs.id, from: "mallory@localhost/x" }));
+
+      const direct = client.sendIq(get(), { timeoutMs: 1_000 });
+      const targeted = client.sendIq(get({ to: "g1@muclight.localhost" }), { timeoutMs: 1_000 });
+      const assertions = [
+        expect(direct).rejects.toBeInstanceOf(XmppTimeoutError),
+        expect(targeted).rejects.toBeInstanceOf(XmppTimeoutError),
+      ];
+      await vi.advanceTimersByTimeAsync(1_000);
+      await Promise.all(assertions);
+    });
+
+    it("rejects outstanding requests when the connection drops", async () => {
+      xmpp.respond = () => null;
+      const pending = client.sendIq(get());
+      await client.disconnect();
+      await expect(pending).rejects.toThrow(/aborted: disconnected/);
+      await expect(client.sendIq(get())).rejects.toThrow("Not connected");
+    });
+
+    it("reports socket write failures as transport errors", async () => {
+      xmpp.send = async () => {
+        throw new Error("socket closed");
+      };
+      await expect(client.sendIq(get())).rejects.toBeInstanceOf(XmppTransportError);
+      await expect(client.sendText("alice@localhost", "hi")).rejects.toThrow(
+        "XMPP write failed: socket closed",
+      );
+    });
+
+    it("uses a random id prefix per client", async () => {
+      xmpp.respond = () => null;
+      const other = new ElymentsXmppClient(session, "test");
+      const otherXmpp = new FakeXmpp();
+      otherXmpp.respond = () => null;
+      attach(other, otherXmpp);
+
+      void client.sendIq(get()).catch(() => {});
+      void client.sendIq(get()).catch(() => {});
+      void other.sendIq(get()).catch(() => {});
+      await other.disconnect();
+
+      const [first, second] = xmpp.sent.map((stanza) => stanza.attrs.id);
+      const [foreign] = otherXmpp.sent.map((stanza) => stanza.attrs.id);
+      expect(first).toMatch(/^[0-9a-f]{12}-\d+$/);
+      expect(second.split("-")[0]).toBe(first.split("-")[0]);
+      expect(foreign.split("-")[0]).not.toBe(first.split("-")[0]);
+    });
+  });
+
+  describe("carbons", () => {
+    const CARBONS_NS = "urn:xmpp:carbons:2";
+    const carbon = (
+      direction: "sent" | "received",
+      outerFrom: string,
+      inner: Record<string, string>,
+    ) =>
+      xml(
+        "message",
+        { from: outerFrom, to: "bot@localhost/test" },
+        xml(
+          direction,
+          { xmlns: CARBONS_NS },
+          xml(
+            "forwarded",
+            { xmlns: "urn:xmpp:forward:0" },
+            xml("delay", { xmlns: "urn:xmpp:delay", stamp: "2026-01-02T03:04:05.000Z" }),
+            xml("message", { type: "chat", ...inner }, xml("body", {}, "hello")),
+          ),
+        ),
+      );
+
+    it("unwraps received carbons as inbound messages", () => {
+      const messages = vi.fn();
+      client.on("message", messages);
+      xmpp.receive(
+        carbon("received", "bot@localhost", {
+          id: "m1",
+          from: "alice@localhost/phone",
+          to: "bot@localhost/phone",
+        }),
+      );
+      expect(messages).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: "alice@localhost/phone",
+          body: "hello",
+          timestamp: Date.parse("2026-01-02T03:04:05.000Z"),
+        }),
+      );
+    });
+
+    it("reports our sends from other devices as outgoing", () => {
+      const outgoing = vi.fn();
+      const messages = vi.fn();
+      client.on("outgoing", outgoing);
+      client.on("message", messages);
+      xmpp.receive(
+        carbon("sent", "bot@localhost", {
+          id: "m2",
+          from: "bot@localhost/phone",
+          to: "alice@localhost/laptop",
+        }),
+      );
+      expect(outgoing).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "alice@localhost", body: "hello", type: "chat" }),
+      );
+      expect(messages).not.toHaveBeenCalled();
+    });
+
+    it("skips copies of our own sends", () => {
+      const outgoing = vi.fn();
+      const messages = vi.fn();
+      client.on("outgoing", outgoing);
+      client.on("message", messages);
+      xmpp.receive(
+        carbon("sent", "bot@localhost", { from: "bot@localhost/test", to: "alice@localhost" }),
+      );
+      xmpp.receive(
+        carbon("received", "bot@localhost", { from: "bot@localhost/phone", to: "bot@localhost" }),
+      );
+      expect(outgoing).not.toHaveBeenCalled();
+      expect(messages).not.toHaveBeenCalled();
+    });
+
+    it("ignores carbons that don't come from our own account", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const messages = vi.fn();
+      client.on("message", messages);
+      xmpp.receive(
+        carbon("received", "mallory@localhost/x", {
+          from: "alice@localhost/phone",
+          to: "bot@localhost",
+        }),
+      );
+      expect(messages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("archive queries", () => {
+    const MAM_NS = "urn:xmpp:mam:2";
+
+    it("collects a page of results and its RSM cursor", async () => {
+      xmpp.respond = (iq) => {
+        const query = iq.getChild("query", MAM_NS);
+        const queryid = query?.attrs.queryid ?? "";
+        const result = (id: string, from: string, archiveFrom?: string) =>
+          xml(
+            "message",
+            { to: "bot@localhost/test", ...(archiveFrom ? { from: archiveFrom } : {}) },
+            xml(
+              "result",
+              { xmlns: MAM_NS, queryid, id },
+              xml(
+                "forwarded",
+                { xmlns: "urn:xmpp:forward:0" },
+                xml("delay", { xmlns: "urn:xmpp:delay", stamp: "2026-01-02T03:04:05.000Z" }),
+                xml("message", { from, type: "chat" }, xml("body", {}, "hi")),
+              ),
+            ),
+          );
+        xmpp.receive(result("a1", "alice@localhost/phone"));
+        // Our own sends and results claiming another archive are left out
+        xmpp.receive(result("a2", "bot@localhost/phone"));
+        xmpp.receive(result("a3", "alice@localhost/phone", "mallory@localhost"));
+        return el(
+          xml(
+            "iq",
+            { type: "result", id: iq.attrs.id },
+            xml(
+              "fin",
+              { xmlns: MAM_NS, complete: "false" },
+              xml("set", { xmlns: "http://jabber.org/protocol/rsm" }, xml("last", {}, "a3")),
+            ),
+          ),
+        );
+      };
+
+      const page = await client.queryArchive({ start: 1_000, after: "a0", max: 10 });
+      expect(page.complete).toBe(false);
+      expect(page.last).toBe("a3");
+      expect(page.messages).toEqual([
+        expect.objectContaining({ stanzaId: "a1", from: "alice@localhost/phone", backfill: true }),
+      ]);
+
+      const query = xmpp.sent[0].getChild("query", MAM_NS);
+      const rsm = query?.getChild("set", "http://jabber.org/protocol/rsm");
+      expect(rsm?.getChildText("after")).toBe("a0");
+      expect(rsm?.getChildText("max")).toBe("10");
+    });
+  });
+
+  describe("roster pushes", () => {
+    const push = (from?: string) =>
+      el(
+        xml(
+          "iq",
+          { type: "set", id: "push1", ...(from ? { from } : {}) },
+          xml(
+            "query",
+            { xmlns: ROSTER_NS },
+            xml("item", { jid: "alice@localhost", subscription: "both" }),
+          ),
+        ),
+      );
+    const handlePush = (stanza: XmppElement) =>
+      (client as unknown as { handleRosterPush(stanza: XmppElement): void }).handleRosterPush(
+        stanza,
+      );
+
+    it("applies pushes from our own account", () => {
+      const rosters = vi.fn();
+      client.on("roster", rosters);
+      handlePush(push());
+      handlePush(push("bot@localhost"));
+      expect(rosters).toHaveBeenCalledTimes(2);
+      expect(client.getRoster().map((item) => item.jid)).toEqual(["alice@localhost"]);
+    });
+
+    it("ignores pushes from anyone else", () => {
+      handlePush(push("mallory@localhost/x"));
+      expect(client.getRoster()).toEqual([]);
+    });
+  });
+
+  describe("receipts", () => {
+    it("reports acks for our messages", () => {
+      const receipts = vi.fn();
+      client.on("receipt", receipts);
+      xmpp.receive(
+        xml(
+          "message",
+          { from: "alice@localhost/phone", type: "chat" },
+          xml("displayed", { xmlns: "urn:xmpp:chat-markers:0", id: "m1" }),
+        ),
+      );
+      expect(receipts).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "m1", kind: "displayed", from: "alice@localhost/phone" }),
+      );
+    });
+
+    it("treats a message with a body as a message, not an ack", () => {
+      const receipts = vi.fn();
+      client.on("receipt", receipts);
+      xmpp.receive(
+        xml(
+          "message",
+          { from: "alice@localhost/phone", type: "chat" },
+          xml("body", {}, "hi"),
+          xml("received", { xmlns: "urn:xmpp:receipts", id: "m1" }),
+        ),
+      );
+      expect(receipts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("media messages", () => {
+    it("sends media as a JSON body without the legacy media element", async () => {
+      const id = await client.sendMedia(
+        "G1@muclight.localhost",
+        {
+          id: "m1",
+          type: "image",
+          url: "https://media.elyments.com/a.jpg",
+          mimeType: "image/jpeg",
+        },
+        "look",
+        "Bot",
+      );
+
+      const [message] = xmpp.sent;
+      expect(message.attrs).toMatchObject({ to: "G1@muclight.localhost", type: "groupchat" });
+      expect(message.getChild("x", "elyments:media")).toBeUndefined();
+      expect(decodeElymentsBody(message.getChildText("body") ?? "")).toMatchObject({
+        kind: "media",
+        id,
+        senderName: "Bot",
+        caption: "look",
+        media: { url: "https://media.elyments.com/a.jpg", mimeType: "image/jpeg" },
+      });
+    });
+  });
+
+  describe("group management", () => {
+    // Groups answer from their own JID, so replies must come from the room
+    beforeEach(() => {
+      xmpp.respond = (iq) =>
+        el(xml("iq", { type: "result", id: iq.attrs.id, from: iq.attrs.to }));
+    });
+
+    it("creates a group with deduplicated members and us as owner", async () => {
+      const group = await client.createGroup({
+        name: "Launch",
+        subject: "Q3",
+        members: ["Alice@localhost/phone", "alice@localhost", "bot@localhost"],
+      });
+
+      const [iq] = xmpp.sent;
+      expect(iq.attrs).toMatchObject({ type: "set", to: group.jid });
+      expect(group.jid).toMatch(/@muclight\.localhost$/);
+      const query = iq.getChild("query", MUC_LIGHT_CREATE_NS);
+      expect(query?.getChild("configuration")?.getChildText("roomname")).toBe("Launch");
+      expect(query?.getChild("configuration")?.getChildText("subject")).toBe("Q3");
+      expect(parseMucLightUsers(query?.getChild("occupants"))).toEqual([
+        { jid: "alice@localhost", affiliation: "member" },
+      ]);
+      expect(group.members).toEqual([
+        { jid: "bot@localhost", affiliation: "owner" },
+        { jid: "alice@localhost", affiliation: "member" },
+      ]);
+    });
+
+    it("changes affiliations with bare, lowercased JIDs", async () => {
+      await client.setGroupAffiliations("g1@muclight.localhost", [
+        { jid: "Carol@localhost/web", affiliation: "member" },
+        { jid: "dave@localhost", affiliation: "none" },
+      ]);
+      const query = xmpp.sent[0].getChild("query", MUC_LIGHT_AFFILIATIONS_NS);
+      expect(parseMucLightUsers(query)).toEqual([
+        { jid: "carol@localhost", affiliation: "member" },
+        { jid: "dave@localhost", affiliation: "none" },
+      ]);
+    });
+
+    it("sends only the configuration fields given", async () => {
+      await client.setGroupConfiguration("g1@muclight.localhost", { name: "Renamed" });
+      const query = xmpp.sent[0].getChild("query", MUC_LIGHT_CONFIGURATION_NS);
+      expect(query?.getChildText("roomname")).toBe("Renamed");
+      expect(query?.getChild("subject")).toBeUndefined();
+
+      await client.setGroupConfiguration("g1@muclight.localhost", {});
+      expect(xmpp.sent).toHaveLength(1);
+    });
+  });
+
+  describe("group changes", () => {
+    const affiliations = (attrs: Record<string, string>) =>
+      xml(
+        "message",
+        attrs,
+        xml(
+          "x",
+          { xmlns: MUC_LIGHT_AFFILIATIONS_NS },
+          xml("user", { affiliation: "member" }, "bot@localhost"),
+        ),
+      );
+
+    it("emits changes pushed by a group", () => {
+      const changes = vi.fn();
+      client.on("groupChange", changes);
+      xmpp.receive(
+        affiliations({ from: "G1@muclight.localhost/alice@localhost", type: "groupchat" }),
+      );
+      expect(changes).toHaveBeenCalledWith(
+        expect.objectContaining({ room: "g1@muclight.localhost", actor: "alice@localhost" }),
+      );
+    });
+
+    it("drops the payload in a direct message", () => {
+      const changes = vi.fn();
+      const messages = vi.fn();
+      client.on("groupChange", changes);
+      client.on("message", messages);
+      xmpp.receive(affiliations({ from: "mallory@localhost/phone", type: "chat" }));
+      xmpp.receive(affiliations({ from: "mallory@localhost/phone", type: "groupchat" }));
+      xmpp.receive(affiliations({ from: "g1@muclight.localhost/alice@localhost" }));
+      expect(changes).not.toHaveBeenCalled();
+      expect(messages).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,36 @@
 import { EventEmitter } from "node:events";
+import * as crypto from "node:crypto";
 import WebSocket from "ws";
-import type { ElymentsSession, ElymentsMediaInfo } from "../types.js";
+import type {
+  ElymentsSession,
+  ElymentsMediaInfo,
+  ElymentsPingConfig,
+  ElymentsRosterItem,
+  ElymentsGroupMember,
+  ElymentsGroupMetadata,
+} from "../types.js";
 import { ELYMENTS_ENDPOINTS } from "../types.js";
+import { ROSTER_NS, applyRosterItems, parseRosterItems } from "./roster.js";
+import {
+  MUC_LIGHT_AFFILIATIONS_NS,
+  MUC_LIGHT_CONFIGURATION_NS,
+  MUC_LIGHT_CREATE_NS,
+  MUC_LIGHT_INFO_NS,
+  parseMucLightInfo,
+  parseMucLightNotification,
+  parseMucLightUsers,
+  type MucLightNotification,
+} from "./muc-light.js";
+import {
+  decodeMessageStanza,
+  encodeMediaBody,
+  encodeReplyBody,
+  encodeTextBody,
+  generateBodyId,
+} from "./codec.js";
+import type { ElymentsBody, ElymentsQuote } from "./codec.js";
+import { REACTIONS_NS, RecentMessageIds, parseReactionsElement } from "./reactions.js";
+import { CHAT_MARKERS_NS, RECEIPTS_NS, parseReceipt } from "./receipts.js";
 
 // Patch global WebSocket for @xmpp/client to use custom headers
 const OriginalWebSocket = globalThis.WebSocket;
@@ -37,10 +66,108 @@ type XmppClient = {
   on(event: string, handler: (...args: unknown[]) => void): void;
   off(event: string, handler: (...args: unknown[]) => void): void;
   removeAllListeners(): void;
+  reconnect?: { stop(): void };
+  iqCallee?: {
+    get(ns: string, name: string, handler: (ctx: { stanza: XmppElement }) => unknown): void;
+    set(ns: string, name: string, handler: (ctx: { stanza: XmppElement }) => unknown): void;
+  };
+};
+
+// Minimal view of an xmpp.js element (ltx)
+export type XmppElement = {
+  name: string;
+  attrs: Record<string, string>;
+  children?: unknown[];
+  getChild(name: string, ns?: string): XmppElement | undefined;
+  getChildren(name: string, ns?: string): XmppElement[];
+  getChildText(name: string, ns?: string): string | null;
+  getChildElements?(): XmppElement[];
+  text?(): string;
+};
+
+const STANZA_ERROR_NS = "urn:ietf:params:xml:ns:xmpp-stanzas";
+const CARBONS_NS = "urn:xmpp:carbons:2";
+const FORWARD_NS = "urn:xmpp:forward:0";
+const DELAY_NS = "urn:xmpp:delay";
+const SID_NS = "urn:xmpp:sid:0";
+const MAM_NS = "urn:xmpp:mam:2";
+const RSM_NS = "http://jabber.org/protocol/rsm";
+const DEFAULT_IQ_TIMEOUT_MS = 15_000;
+
+// IQ answered with type="error"
+export class XmppStanzaError extends Error {
+  readonly condition: string;
+  readonly errorType?: string;
+  readonly text?: string;
+  readonly stanza?: XmppElement;
+
+  constructor(params: { condition: string; errorType?: string; text?: string; stanza?: XmppElement }) {
+    super(params.text ? `${params.condition}: ${params.text}` : params.condition);
+    this.name = "XmppStanzaError";
+    this.condition = params.condition;
+    this.errorType = params.errorType;
+    this.text = params.text;
+    this.stanza = params.stanza;
+  }
+}
+
+// IQ got no reply within the timeout
+export class XmppTimeoutError extends Error {
+  constructor(id: string, timeoutMs: number) {
+    super(`IQ ${id} timed out after ${timeoutMs}ms`);
+    this.name = "XmppTimeoutError";
+  }
+}
+
+// The socket refused a stanza write (closed, reset, ...); unlike a stanza error this
+// says nothing about the request itself
+export class XmppTransportError extends Error {
+  constructor(cause: unknown) {
+    super(`XMPP write failed: ${cause instanceof Error ? cause.message : String(cause)}`, {
+      cause,
+    });
+    this.name = "XmppTransportError";
+  }
+}
+
+// Parse <error/> out of a type="error" stanza
+export function parseStanzaError(stanza: XmppElement): XmppStanzaError {
+  const error = stanza.getChild("error");
+  if (!error) {
+    return new XmppStanzaError({ condition: "undefined-condition", stanza });
+  }
+
+  const children = error.getChildElements?.() ?? [];
+  const condition = children.find(
+    (child) => child.attrs?.xmlns === STANZA_ERROR_NS && child.name !== "text",
+  );
+
+  return new XmppStanzaError({
+    condition: condition?.name ?? "undefined-condition",
+    errorType: error.attrs?.type,
+    text: error.getChildText("text", STANZA_ERROR_NS) ?? undefined,
+    stanza,
+  });
+}
+
+type PendingIq = {
+  // Entity the request went to ("" for our own account/server)
+  to: string;
+  resolve: (stanza: XmppElement) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
 };
 
 export type XmppMessageEvent = {
   id: string;
+  // Server-assigned archive id (XEP-0359 stanza-id / MAM result id)
+  stanzaId?: string;
+  // Sender-assigned id (XEP-0359 origin-id)
+  originId?: string;
+  // id attribute of the <message/> stanza (used for receipts and markers)
+  xmppId?: string;
+  // Sender asked for a XEP-0184 delivery receipt
+  receiptRequested?: boolean;
   from: string;
   to: string;
   type: "chat" | "groupchat";
@@ -48,31 +175,146 @@ export type XmppMessageEvent = {
   timestamp: number;
   senderName?: string;
   media?: ElymentsMediaInfo;
+  // Typed message body (reply, location, contact, ...)
+  content?: ElymentsBody;
+  // Replayed from the archive after downtime rather than received live
+  backfill?: boolean;
   raw?: unknown;
 };
 
+// One page of archived messages (XEP-0313 + XEP-0059 paging)
+export type XmppArchivePage = {
+  messages: XmppMessageEvent[];
+  complete: boolean;
+  last?: string;
+};
+
+type PendingArchiveQuery = {
+  archiveJid: string;
+  messages: XmppMessageEvent[];
+};
+
+// Message the account owner sent from another device (XEP-0280 sent carbon)
+export type XmppOutgoingEvent = {
+  id: string;
+  to: string;
+  type: "chat" | "groupchat";
+  body: string;
+  timestamp: number;
+  senderName?: string;
+  raw?: unknown;
+};
+
+// Reactions someone set on a message (XEP-0444); an empty list means removed
+export type XmppReactionEvent = {
+  id: string;
+  from: string;
+  to: string;
+  type: "chat" | "groupchat";
+  targetId: string;
+  reactions: string[];
+  timestamp: number;
+  // Target is a message this client sent
+  toOwnMessage: boolean;
+  raw?: unknown;
+};
+
+// Message we sent, with both ids a receipt may refer to
+export type XmppSentEvent = {
+  id: string;
+  xmppId: string;
+  to: string;
+  at: number;
+};
+
+// Our group message echoed back by the room with its archive id, which group
+// displayed markers refer to
+export type XmppReflectedEvent = {
+  xmppId: string;
+  stanzaId: string;
+  room: string;
+};
+
+// Delivery receipt / chat marker for a message we sent
+export type XmppReceiptEvent = {
+  id: string;
+  kind: "delivered" | "displayed";
+  from: string;
+  timestamp: number;
+};
+
+// Bounce for a message we sent (<message type="error"/>)
+export type XmppMessageErrorEvent = {
+  id: string;
+  from: string;
+  error: XmppStanzaError;
+};
+
+// MUC-Light affiliation or configuration change pushed by a group
+export type XmppGroupChangeEvent = {
+  room: string;
+  // Member who made the change, when the server names one
+  actor?: string;
+  change: MucLightNotification;
+  timestamp: number;
+};
+
 export type XmppClientEvents = {
   message: [XmppMessageEvent];
+  sent: [XmppSentEvent];
+  reflected: [XmppReflectedEvent];
+  receipt: [XmppReceiptEvent];
+  messageError: [XmppMessageErrorEvent];
+  outgoing: [XmppOutgoingEvent];
+  reaction: [XmppReactionEvent];
   online: [];
   offline: [];
   error: [Error];
   connecting: [];
   connected: [];
   disconnected: [{ reason?: string }];
+  pong: [{ rttMs: number; at: number }];
+  pingTimeout: [{ missed: number }];
+  roster: [ElymentsRosterItem[]];
+  groupChange: [XmppGroupChangeEvent];
+};
+
+export type ElymentsXmppClientOptions = {
+  ping?: ElymentsPingConfig;
+  // Ask recipients for delivery receipts / markers (default true)
+  requestReceipts?: boolean;
+  // Shared across reconnects so reactions to earlier sends are still recognised
+  sentMessageIds?: RecentMessageIds;
 };
 
+const DEFAULT_PING_INTERVAL_MS = 30_000;
+const DEFAULT_PING_TIMEOUT_MS = 10_000;
+const DEFAULT_PING_MAX_MISSED = 2;
+
 export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
   private session: ElymentsSession;
   private resource: string;
+  private options: ElymentsXmppClientOptions;
   private xmpp: XmppClient | null = null;
   private connected = false;
   private pingInterval: NodeJS.Timeout | null = null;
+  private pendingIqs: Map<string, PendingIq> = new Map();
+  private missedPings = 0;
+  private carbonsEnabled = false;
+  private roster: Map<string, ElymentsRosterItem> = new Map();
+  private archiveQueries: Map<string, PendingArchiveQuery> = new Map();
+  private lastPingRttMs: number | null = null;
+  private sentMessageIds: RecentMessageIds;
   private messageId = 0;
+  // Fresh per connection so replies meant for an earlier connection can't match
+  private idPrefix = crypto.randomBytes(6).toString("hex");
 
-  constructor(session: ElymentsSession, resource: string) {
+  constructor(session: ElymentsSession, resource: string, options: ElymentsXmppClientOptions = {}) {
     super();
     this.session = session;
     this.resource = resource;
+    this.options = options;
+    this.sentMessageIds = options.sentMessageIds ?? new RecentMessageIds();
   }
 
   async connect(): Promise<void> {
@@ -81,6 +323,7 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
     }
 
     this.emit("connecting");
+    this.idPrefix = crypto.randomBytes(6).toString("hex");
 
     // Patch WebSocket to add Origin header (required by Elyments)
     patchWebSocket("https://chat.elyments.com");
@@ -99,6 +342,10 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
         password: this.session.chatAccessToken,
       }) as XmppClient;
 
+      // Reconnects are supervised by ElymentsClient (fresh tokens + backoff),
+      // so disable the library's fixed-delay reconnect that reuses stale credentials
+      this.xmpp.reconnect?.stop();
+
     // Set up event handlers
     this.xmpp.on("error", (err: unknown) => {
       const error = err instanceof Error ? err : new Error(String(err));
@@ -106,10 +353,12 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
     });
 
     this.xmpp.on("offline", () => {
-      this.connected = false;
-      this.stopPing();
+      this.markDisconnected("offline");
       this.emit("offline");
-      this.emit("disconnected", { reason: "offline" });
+    });
+
+    this.xmpp.on("disconnect", () => {
+      this.markDisconnected("socket closed");
     });
 
     this.xmpp.on("online", async (jid: unknown) => {
@@ -129,6 +378,12 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
       this.handleStanza(stanza);
     });
 
+    // Roster pushes must be acknowledged, otherwise the library answers with an error
+    this.xmpp.iqCallee?.set(ROSTER_NS, "query", ({ stanza }) => {
+      this.handleRosterPush(stanza);
+      return true;
+    });
+
       // Connect
       await this.xmpp.start();
     } finally {
@@ -148,6 +403,11 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
       getChildText?: (name: string) => string | null;
     };
 
+    if (s.name === "iq") {
+      this.handleIq(stanza as XmppElement);
+      return;
+    }
+
     if (s.name !== "message") return;
 
     const attrs = s.attrs || {};
@@ -156,90 +416,305 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
     const id = attrs.id || `msg-${Date.now()}`;
     const type = (attrs.type || "chat") as "chat" | "groupchat";
 
-    // Skip messages from self
-    if (from.includes(this.session.userId)) return;
-
-    // Get body text - may be direct or in MAM result
-    let rawBody = s.getChildText?.("body") || "";
-    let timestamp = Date.now();
-
-    // Check for MAM (Message Archive Management) result
-    const mamResult = s.getChild?.("result", "urn:xmpp:mam:2");
-    if (mamResult && typeof mamResult === "object") {
-      const mr = mamResult as { getChild?: (name: string, ns?: string) => unknown };
-      const forwarded = mr.getChild?.("forwarded", "urn:xmpp:forward:0");
-      if (forwarded && typeof forwarded === "object") {
-        const fwd = forwarded as {
-          getChild?: (name: string, ns?: string) => unknown;
-        };
-        const innerMsg = fwd.getChild?.("message");
-        if (innerMsg && typeof innerMsg === "object") {
-          const inner = innerMsg as { getChildText?: (name: string) => string | null };
-          rawBody = inner.getChildText?.("body") || rawBody;
-        }
-        // Extract delay timestamp
-        const delay = fwd.getChild?.("delay", "urn:xmpp:delay");
-        if (delay && typeof delay === "object") {
-          const d = delay as { attrs?: { stamp?: string } };
-          if (d.attrs?.stamp) {
-            timestamp = new Date(d.attrs.stamp).getTime();
-          }
-        }
+    // Bounced messages we sent
+    if (attrs.type === "error") {
+      if (attrs.id) {
+        this.emit("messageError", {
+          id: attrs.id,
+          from,
+          error: parseStanzaError(stanza as XmppElement),
+        });
       }
+      return;
     }
 
-    if (!rawBody) return;
+    // XEP-0280 carbon copies of messages sent/received by our other devices
+    const carbon = this.unwrapCarbon(stanza as XmppElement);
+    if (carbon) {
+      this.handleCarbon(carbon.direction, carbon.message, carbon.timestamp);
+      return;
+    }
 
-    console.log("[elyments] message from:", from, "rawBody:", rawBody.slice(0, 100));
+    // XEP-0313 archive results belong to an in-flight queryArchive call
+    const mamResult = (stanza as XmppElement).getChild("result", MAM_NS);
+    if (mamResult) {
+      this.collectArchivedMessage(from, mamResult);
+      return;
+    }
 
-    // Parse body as JSON (Elyments format)
-    let body = rawBody;
-    let senderName: string | undefined;
-    let messageId: string | undefined;
+    // Group membership/config changes (including ones we made ourselves). Only the room
+    // itself may announce them; a chat stanza carrying the payload is dropped outright
+    const groupChange = parseMucLightNotification(stanza as XmppElement);
+    if (groupChange) {
+      if (attrs.type !== "groupchat" || !isElymentsGroup(from)) return;
+      const actor = from.split("/")[1];
+      this.emit("groupChange", {
+        room: bareJid(from).toLowerCase(),
+        actor: actor ? actor.toLowerCase() : undefined,
+        change: groupChange,
+        timestamp: Date.now(),
+      });
+      return;
+    }
 
-    try {
-      const parsed = JSON.parse(rawBody) as {
-        info?: { message?: string; caption?: string };
-        senderName?: string;
-        sender_name?: string;
-        id?: string;
-      };
-      body = parsed?.info?.message || parsed?.info?.caption || rawBody;
-      senderName = parsed?.senderName ?? parsed?.sender_name;
-      messageId = parsed?.id;
-    } catch {
-      // Body is not JSON, use as-is
-      body = rawBody;
+    // Skip messages from self, but learn the archive id of our reflected group sends
+    if (from.includes(this.session.userId)) {
+      const originId = (stanza as XmppElement).getChild("origin-id", SID_NS)?.attrs?.id;
+      if (originId && this.sentMessageIds.has(originId)) {
+        const stanzaId = (stanza as XmppElement).getChild("stanza-id", SID_NS)?.attrs?.id;
+        this.sentMessageIds.add(stanzaId, bareJid(from));
+        if (stanzaId) this.emit("reflected", { xmppId: originId, stanzaId, room: bareJid(from) });
+      }
+      return;
+    }
+
+    // Receipts and markers for our messages (ignored if they ride along with a body)
+    const receipt = parseReceipt(stanza as XmppElement);
+    if (receipt && !(stanza as XmppElement).getChildText("body")) {
+      this.emit("receipt", { ...receipt, from, timestamp: Date.now() });
+      return;
     }
 
+    const reactions = parseReactionsElement(stanza as XmppElement);
+    if (reactions) {
+      const stamp = (stanza as XmppElement).getChild("delay", DELAY_NS)?.attrs?.stamp;
+      this.emit("reaction", {
+        id,
+        from,
+        to,
+        type,
+        targetId: reactions.targetId,
+        reactions: reactions.reactions,
+        timestamp: stamp ? new Date(stamp).getTime() : Date.now(),
+        toOwnMessage: this.sentMessageIds.has(reactions.targetId),
+        raw: stanza,
+      });
+      return;
+    }
+
+    const parsedMessage = decodeMessageStanza(stanza as XmppElement);
+    if (!parsedMessage) return;
+    // Offline messages replayed at login carry their original send time
+    const stamp = (stanza as XmppElement).getChild("delay", DELAY_NS)?.attrs?.stamp;
+    const timestamp = stamp ? new Date(stamp).getTime() : Date.now();
+    const stanzaId = (stanza as XmppElement).getChild("stanza-id", SID_NS)?.attrs?.id;
+    const originId = (stanza as XmppElement).getChild("origin-id", SID_NS)?.attrs?.id;
+
+    const { content, body, senderName, messageId, media } = parsedMessage;
+    console.log(
+      "[elyments] message from:",
+      from,
+      media ? `media: ${media.type}` : "",
+      "body:",
+      body.slice(0, 100),
+    );
+
     const event: XmppMessageEvent = {
       id: messageId || id,
+      stanzaId,
+      originId,
+      xmppId: attrs.id,
+      receiptRequested: Boolean((stanza as XmppElement).getChild("request", RECEIPTS_NS)),
       from,
       to,
       type,
       body,
       timestamp,
       senderName,
+      media,
+      content,
       raw: stanza,
     };
 
     this.emit("message", event);
   }
 
+  // Query one page of the message archive: our own (DMs) or a group's room archive
+  async queryArchive(params: {
+    archiveJid?: string;
+    with?: string;
+    start?: number;
+    after?: string;
+    max?: number;
+    timeoutMs?: number;
+  }): Promise<XmppArchivePage> {
+    const { xml } = await import("@xmpp/client");
+
+    const queryId = this.nextId();
+    const ownJid = formatDirectJid(this.session.userId).toLowerCase();
+    const archiveJid = params.archiveJid ? bareJid(params.archiveJid).toLowerCase() : ownJid;
+
+    const fields = [
+      xml("field", { var: "FORM_TYPE", type: "hidden" }, xml("value", {}, MAM_NS)),
+    ];
+    if (params.with) {
+      fields.push(xml("field", { var: "with" }, xml("value", {}, params.with)));
+    }
+    if (params.start) {
+      fields.push(
+        xml("field", { var: "start" }, xml("value", {}, new Date(params.start).toISOString())),
+      );
+    }
+
+    const rsm = [xml("max", {}, String(params.max ?? 50))];
+    if (params.after) {
+      rsm.push(xml("after", {}, params.after));
+    }
+
+    const iqAttrs: Record<string, string> = { type: "set" };
+    if (archiveJid !== ownJid) {
+      iqAttrs.to = archiveJid;
+    }
+    const iq = xml(
+      "iq",
+      iqAttrs,
+      xml(
+        "query",
+        { xmlns: MAM_NS, queryid: queryId },
+        xml("x", { xmlns: "jabber:x:data", type: "submit" }, ...fields),
+        xml("set", { xmlns: RSM_NS }, ...rsm),
+      ),
+    );
+
+    const pending: PendingArchiveQuery = { archiveJid, messages: [] };
+    this.archiveQueries.set(queryId, pending);
+    try {
+      const result = await this.sendIq(iq, { timeoutMs: params.timeoutMs ?? 30_000 });
+      const fin = result.getChild("fin", MAM_NS);
+      return {
+        messages: pending.messages,
+        complete: fin?.attrs?.complete === "true",
+        last: fin?.getChild("set", RSM_NS)?.getChildText("last") ?? undefined,
+      };
+    } finally {
+      this.archiveQueries.delete(queryId);
+    }
+  }
+
+  // Route an archived message to the query that requested it
+  private collectArchivedMessage(from: string, result: XmppElement): void {
+    const query = this.archiveQueries.get(result.attrs?.queryid ?? "");
+    if (!query) return;
+
+    // Results must come from the archive we queried (our own archive may omit "from")
+    if (from && bareJid(from).toLowerCase() !== query.archiveJid) return;
+
+    const forwarded = result.getChild("forwarded", FORWARD_NS);
+    const message = forwarded?.getChild("message");
+    if (!message) return;
+
+    const attrs = message.attrs ?? {};
+    const sender = attrs.from || "";
+    const parsed = decodeMessageStanza(message);
+    if (!parsed || sender.includes(this.session.userId)) return;
+
+    const stamp = forwarded?.getChild("delay", DELAY_NS)?.attrs?.stamp;
+    const { content, body, senderName, messageId, media } = parsed;
+    query.messages.push({
+      id: messageId || attrs.id || result.attrs.id,
+      stanzaId: result.attrs.id,
+      originId: message.getChild("origin-id", SID_NS)?.attrs?.id,
+      from: sender,
+      to: attrs.to || "",
+      type: (attrs.type || "chat") as "chat" | "groupchat",
+      body,
+      timestamp: stamp ? new Date(stamp).getTime() : Date.now(),
+      senderName,
+      media,
+      content,
+      backfill: true,
+      raw: message,
+    });
+  }
+
+  // Extract the forwarded message from a <sent/> or <received/> carbon envelope
+  private unwrapCarbon(
+    stanza: XmppElement,
+  ): { direction: "sent" | "received"; message: XmppElement; timestamp: number } | null {
+    for (const direction of ["sent", "received"] as const) {
+      const wrapper = stanza.getChild(direction, CARBONS_NS);
+      if (!wrapper) continue;
+
+      // Carbons must come from our own bare JID, anything else is spoofed
+      const outerFrom = stanza.attrs?.from;
+      const ownJid = formatDirectJid(this.session.userId).toLowerCase();
+      if (outerFrom && bareJid(outerFrom).toLowerCase() !== ownJid) {
+        console.warn(`[elyments] ignoring carbon from foreign JID ${outerFrom}`);
+        return null;
+      }
+
+      const forwarded = wrapper.getChild("forwarded", FORWARD_NS);
+      const message = forwarded?.getChild("message");
+      if (!message) return null;
+
+      const stamp = forwarded?.getChild("delay", DELAY_NS)?.attrs?.stamp;
+      const timestamp = stamp ? new Date(stamp).getTime() : Date.now();
+      return { direction, message, timestamp };
+    }
+    return null;
+  }
+
+  private handleCarbon(direction: "sent" | "received", message: XmppElement, timestamp: number): void {
+    const attrs = message.attrs ?? {};
+    const parsed = decodeMessageStanza(message);
+    if (!parsed) return;
+
+    const type = (attrs.type || "chat") as "chat" | "groupchat";
+    const { content, body, senderName, messageId, media } = parsed;
+    const id = messageId || attrs.id || `msg-${Date.now()}`;
+
+    if (direction === "received") {
+      // A message delivered to another of our resources; handle it like a normal inbound
+      const from = attrs.from || "";
+      if (from.includes(this.session.userId)) return;
+      this.emit("message", {
+        id,
+        stanzaId: message.getChild("stanza-id", SID_NS)?.attrs?.id,
+        originId: message.getChild("origin-id", SID_NS)?.attrs?.id,
+        from,
+        to: attrs.to || "",
+        type,
+        body,
+        timestamp,
+        senderName,
+        media,
+        content,
+        raw: message,
+      });
+      return;
+    }
+
+    // Ignore copies of our own sends (servers shouldn't echo them, but be safe)
+    const fromResource = (attrs.from || "").split("/")[1];
+    if (fromResource && fromResource === this.resource) return;
+
+    this.emit("outgoing", {
+      id,
+      to: bareJid(attrs.to || ""),
+      type,
+      body,
+      timestamp,
+      senderName,
+      raw: message,
+    });
+  }
+
   // Initialize XMPP session with presence, carbons, and roster
   private async initializeSession(): Promise<void> {
     if (!this.xmpp) return;
 
     const { xml } = await import("@xmpp/client");
 
-    // 1. Start session
-    const sessionId = this.nextId();
-    const sessionIq = xml(
-      "iq",
-      { xmlns: "jabber:client", id: sessionId, type: "set" },
-      xml("session", { xmlns: "urn:ietf:params:xml:ns:xmpp-session" })
-    );
-    await this.xmpp.send(sessionIq);
+    // 1. Start session (optional on modern servers, so failures are not fatal)
+    await this.sendIq(
+      xml(
+        "iq",
+        { xmlns: "jabber:client", type: "set" },
+        xml("session", { xmlns: "urn:ietf:params:xml:ns:xmpp-session" })
+      )
+    ).catch((err) => {
+      console.warn(`[elyments] session IQ failed: ${String(err)}`);
+    });
 
     // 2. Send presence (required for server to deliver messages)
     const presence = xml(
@@ -248,50 +723,194 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
       xml("show", {}, "chat"),
       xml("priority", {}, "10")
     );
-    await this.xmpp.send(presence);
+    await this.write(presence);
     console.log("[elyments] presence sent");
 
     // 3. Enable carbons (to receive copies of messages)
-    const carbonsId = this.nextId();
-    const carbonsIq = xml(
-      "iq",
-      { xmlns: "jabber:client", id: carbonsId, type: "set" },
-      xml("enable", { xmlns: "urn:xmpp:carbons:2" })
+    this.carbonsEnabled = await this.sendIq(
+      xml(
+        "iq",
+        { xmlns: "jabber:client", type: "set" },
+        xml("enable", { xmlns: CARBONS_NS })
+      )
+    ).then(
+      () => true,
+      (err) => {
+        console.warn(`[elyments] enabling carbons failed: ${String(err)}`);
+        return false;
+      },
     );
-    await this.xmpp.send(carbonsIq);
 
     // 4. Request roster (contact list)
-    const rosterId = this.nextId();
-    const rosterIq = xml(
-      "iq",
-      { xmlns: "jabber:client", id: rosterId, type: "get" },
-      xml("query", { xmlns: "jabber:iq:roster" })
+    await this.sendIq(
+      xml(
+        "iq",
+        { xmlns: "jabber:client", type: "get" },
+        xml("query", { xmlns: ROSTER_NS })
+      )
+    ).then(
+      (result) => {
+        this.roster.clear();
+        applyRosterItems(this.roster, parseRosterItems(result.getChild("query", ROSTER_NS)));
+        console.log(`[elyments] roster loaded (${this.roster.size} contacts)`);
+        this.emit("roster", this.getRoster());
+      },
+      (err) => {
+        console.warn(`[elyments] roster request failed: ${String(err)}`);
+      },
     );
-    await this.xmpp.send(rosterIq);
 
-    console.log("[elyments] session initialized");
+    console.log(`[elyments] session initialized (carbons ${this.carbonsEnabled ? "on" : "off"})`);
   }
 
-  private async startPing(): Promise<void> {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
+  // Apply a server roster push (RFC 6121 2.1.6)
+  private handleRosterPush(stanza: XmppElement): void {
+    // Pushes are only trusted from our own account
+    const from = stanza.attrs?.from;
+    if (from && extractUserId(from) !== this.session.userId) return;
+
+    applyRosterItems(this.roster, parseRosterItems(stanza.getChild("query", ROSTER_NS)));
+    this.emit("roster", this.getRoster());
+  }
+
+  // Send an IQ and wait for the matching result/error reply
+  async sendIq(stanza: unknown, opts: { timeoutMs?: number } = {}): Promise<XmppElement> {
+    if (!this.xmpp || !this.connected) {
+      throw new Error("Not connected");
+    }
+
+    const iq = stanza as XmppElement;
+    if (!iq.attrs.id) {
+      iq.attrs.id = this.nextId();
+    }
+    const id = iq.attrs.id;
+    const to = (iq.attrs.to ?? "").toLowerCase();
+    const timeoutMs = opts.timeoutMs ?? DEFAULT_IQ_TIMEOUT_MS;
+
+    const reply = new Promise<XmppElement>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingIqs.delete(id);
+        reject(new XmppTimeoutError(id, timeoutMs));
+      }, timeoutMs);
+      this.pendingIqs.set(id, { to, resolve, reject, timer });
+    });
+
+    try {
+      await this.write(iq);
+    } catch (err) {
+      const pending = this.pendingIqs.get(id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingIqs.delete(id);
+      }
+      throw err;
     }
 
+    return await reply;
+  }
+
+  // Match IQ replies against outstanding requests
+  private handleIq(stanza: XmppElement): void {
+    const { id, type, from } = stanza.attrs ?? {};
+    if (!id || (type !== "result" && type !== "error")) return;
+
+    const pending = this.pendingIqs.get(id);
+    if (!pending) return;
+    if (!this.isIqReplyFrom(pending.to, from)) {
+      console.warn(`[elyments] ignoring IQ ${id} reply from unexpected ${from ?? "(none)"}`);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingIqs.delete(id);
+    if (type === "error") {
+      pending.reject(parseStanzaError(stanza));
+    } else {
+      pending.resolve(stanza);
+    }
+  }
+
+  // Replies must come from the entity we asked. Requests without "to" go to our own
+  // account, which the server answers as itself, as our JID or with no "from" at all
+  private isIqReplyFrom(to: string, from: string | undefined): boolean {
+    const sender = (from ?? "").toLowerCase();
+    if (to) return sender === to;
+    if (!sender) return true;
+    const ownJid = formatDirectJid(this.session.userId).toLowerCase();
+    return sender === ownJid.split("@")[1] || bareJid(sender) === ownJid;
+  }
+
+  // Write a stanza, tagging socket failures so callers can tell them from stanza errors
+  private async write(stanza: unknown): Promise<void> {
+    if (!this.xmpp) throw new XmppTransportError(new Error("Not connected"));
+    try {
+      await this.xmpp.send(stanza);
+    } catch (err) {
+      throw new XmppTransportError(err);
+    }
+  }
+
+  // Reject every outstanding IQ (e.g. when the connection drops)
+  private rejectPendingIqs(reason: string): void {
+    for (const [id, pending] of this.pendingIqs) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(`IQ ${id} aborted: ${reason}`));
+    }
+    this.pendingIqs.clear();
+  }
+
+  private async startPing(): Promise<void> {
+    this.stopPing();
+
     // Import xml helper
     const { xml } = await import("@xmpp/client");
 
-    // Send ping every 30 seconds to keep connection alive
+    const intervalMs = this.options.ping?.intervalMs ?? DEFAULT_PING_INTERVAL_MS;
+    const timeoutMs = this.options.ping?.timeoutMs ?? DEFAULT_PING_TIMEOUT_MS;
+    const maxMissed = this.options.ping?.maxMissed ?? DEFAULT_PING_MAX_MISSED;
+    this.missedPings = 0;
+
+    // Ping periodically; a half-open socket never answers, so count missed pongs
     this.pingInterval = setInterval(async () => {
-      if (this.connected && this.xmpp) {
-        try {
-          const id = this.nextId();
-          const ping = xml("iq", { type: "get", id }, xml("ping", { xmlns: "urn:xmpp:ping" }));
-          await this.xmpp.send(ping);
-        } catch {
-          // Ignore ping errors
+      if (!this.connected || !this.xmpp) return;
+
+      const sentAt = Date.now();
+      const ping = xml("iq", { type: "get" }, xml("ping", { xmlns: "urn:xmpp:ping" }));
+      try {
+        await this.sendIq(ping, { timeoutMs });
+      } catch (err) {
+        if (!(err instanceof XmppStanzaError)) {
+          this.handleMissedPing(maxMissed);
+          return;
         }
+        // An error reply still proves the link is alive
       }
-    }, 30_000);
+
+      const now = Date.now();
+      this.missedPings = 0;
+      this.lastPingRttMs = now - sentAt;
+      this.emit("pong", { rttMs: this.lastPingRttMs, at: now });
+    }, intervalMs);
+  }
+
+  private handleMissedPing(maxMissed: number): void {
+    if (!this.connected) return;
+    this.missedPings += 1;
+    this.emit("pingTimeout", { missed: this.missedPings });
+    if (this.missedPings >= maxMissed) {
+      console.error(`[elyments] no pong after ${this.missedPings} pings, dropping connection`);
+      this.markDisconnected("ping timeout");
+      this.xmpp?.stop().catch(() => {});
+    }
+  }
+
+  // Emit a single "disconnected" event per established connection
+  private markDisconnected(reason: string): void {
+    this.stopPing();
+    this.rejectPendingIqs(reason);
+    if (!this.connected) return;
+    this.connected = false;
+    this.emit("disconnected", { reason });
   }
 
   private stopPing(): void {
@@ -302,92 +921,108 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
   }
 
   private nextId(): string {
-    return `clawdbot-${++this.messageId}`;
+    return `${this.idPrefix}-${++this.messageId}`;
+  }
+
+  // Send a text message, optionally as a quoted reply
+  async sendText(
+    jid: string,
+    text: string,
+    senderName?: string,
+    replyTo?: ElymentsQuote
+  ): Promise<string> {
+    const bodyId = generateBodyId();
+    const body = replyTo
+      ? encodeReplyBody({ id: bodyId, text, quoted: replyTo, senderName })
+      : encodeTextBody({ id: bodyId, text, senderName });
+    await this.sendBody(jid, body, bodyId);
+    return bodyId;
   }
 
-  // Send a text message
-  async sendText(jid: string, text: string, senderName?: string): Promise<string> {
+  // Send a media message (same JSON envelope family as text)
+  async sendMedia(
+    jid: string,
+    media: ElymentsMediaInfo,
+    caption?: string,
+    senderName?: string
+  ): Promise<string> {
+    const bodyId = generateBodyId();
+    await this.sendBody(jid, encodeMediaBody({ id: bodyId, media, caption, senderName }), bodyId);
+    return bodyId;
+  }
+
+  // Set our reactions on a message (XEP-0444 replaces the full set; empty removes all)
+  async sendReaction(jid: string, targetId: string, reactions: string[]): Promise<void> {
     if (!this.xmpp || !this.connected) {
       throw new Error("Not connected");
     }
 
     const { xml } = await import("@xmpp/client");
-    const crypto = await import("node:crypto");
 
-    const stanzaId = this.nextId();
-    const bodyId = crypto.randomBytes(16).toString("hex").toUpperCase();
     const isGroup = jid.includes("@muclight.localhost");
-    const type = isGroup ? "groupchat" : "chat";
-
-    // Elyments expects JSON body format
-    const body = JSON.stringify({
-      senderName: senderName || "Clawdbot",
-      ver: 1,
-      info: { message: text },
-      id: bodyId,
-      type: "text",
-      lang: "en",
-      isFwd: false,
-      origin: "W|NodeJS|clawdbot",
-    });
-
     const message = xml(
       "message",
-      { xmlns: "jabber:client", id: stanzaId, to: jid, type },
-      xml("origin-id", { xmlns: "urn:xmpp:sid:0", id: stanzaId }),
-      xml("body", {}, body)
+      { xmlns: "jabber:client", id: this.nextId(), to: jid, type: isGroup ? "groupchat" : "chat" },
+      xml(
+        "reactions",
+        { xmlns: REACTIONS_NS, id: targetId },
+        ...reactions.map((reaction) => xml("reaction", {}, reaction))
+      ),
+      xml("store", { xmlns: "urn:xmpp:hints" })
     );
-    await this.xmpp.send(message);
-
-    return bodyId;
+    await this.write(message);
   }
 
-  // Send a media message
-  async sendMedia(
-    jid: string,
-    media: ElymentsMediaInfo,
-    caption?: string,
-    senderName?: string
-  ): Promise<string> {
+  // Send an encoded Elyments body to a chat
+  private async sendBody(jid: string, body: string, bodyId: string): Promise<void> {
     if (!this.xmpp || !this.connected) {
       throw new Error("Not connected");
     }
 
     const { xml } = await import("@xmpp/client");
 
-    const id = this.nextId();
+    const stanzaId = this.nextId();
     const isGroup = jid.includes("@muclight.localhost");
     const type = isGroup ? "groupchat" : "chat";
 
-    const children: unknown[] = [];
-
-    if (caption) {
-      children.push(xml("body", {}, caption));
-    }
-
-    // Media element
-    const mediaAttrs: Record<string, string | number> = {
-      xmlns: "elyments:media",
-      type: media.type,
-      url: media.url,
-      id: media.id,
-    };
-    if (media.name) mediaAttrs.name = media.name;
-    if (media.size) mediaAttrs.size = media.size;
-    if (media.mimeType) mediaAttrs.mimeType = media.mimeType;
-    if (media.duration) mediaAttrs.duration = media.duration;
-    if (media.thumbnail) mediaAttrs.thumbnail = media.thumbnail;
+    const requestReceipts = this.options.requestReceipts !== false;
+    const message = xml(
+      "message",
+      { xmlns: "jabber:client", id: stanzaId, to: jid, type },
+      xml("origin-id", { xmlns: SID_NS, id: stanzaId }),
+      xml("body", {}, body),
+      ...(requestReceipts
+        ? [xml("request", { xmlns: RECEIPTS_NS }), xml("markable", { xmlns: CHAT_MARKERS_NS })]
+        : [])
+    );
+    await this.write(message);
 
-    children.push(xml("x", mediaAttrs));
+    // Reactions may target either the body id or the stanza id
+    this.sentMessageIds.add(bodyId, jid);
+    this.sentMessageIds.add(stanzaId, jid);
+    this.emit("sent", { id: bodyId, xmppId: stanzaId, to: jid, at: Date.now() });
+  }
 
-    if (senderName) {
-      children.push(xml("nick", { xmlns: "http://jabber.org/protocol/nick" }, senderName));
-    }
+  // Acknowledge an inbound message: XEP-0184 receipt and/or XEP-0333 displayed marker
+  async sendReceipt(
+    jid: string,
+    messageId: string,
+    kind: "received" | "displayed"
+  ): Promise<void> {
+    if (!this.xmpp || !this.connected) return;
 
-    const message = xml("message", { type, to: jid, id }, ...children);
-    await this.xmpp.send(message);
+    const { xml } = await import("@xmpp/client");
 
-    return id;
+    const isGroup = jid.includes("@muclight.localhost");
+    const ns = kind === "received" ? RECEIPTS_NS : CHAT_MARKERS_NS;
+    const message = xml(
+      "message",
+      { xmlns: "jabber:client", id: this.nextId(), to: jid, type: isGroup ? "groupchat" : "chat" },
+      xml(kind, { xmlns: ns, id: messageId }),
+      // Markers should land in the archive so other devices see the chat as read
+      ...(kind === "displayed" ? [xml("store", { xmlns: "urn:xmpp:hints" })] : [])
+    );
+    await this.write(message);
   }
 
   // Send typing indicator
@@ -403,7 +1038,7 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
       { type, to: jid },
       xml("composing", { xmlns: "http://jabber.org/protocol/chatstates" })
     );
-    await this.xmpp.send(message);
+    await this.write(message);
   }
 
   // Send paused typing indicator
@@ -419,7 +1054,7 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
       { type, to: jid },
       xml("paused", { xmlns: "http://jabber.org/protocol/chatstates" })
     );
-    await this.xmpp.send(message);
+    await this.write(message);
   }
 
   // Update session (e.g., after token refresh)
@@ -427,14 +1062,153 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
     this.session = session;
   }
 
+  // Fetch a group's name, subject and members (MUC-Light info query)
+  async queryGroupInfo(
+    roomJid: string,
+    opts: { timeoutMs?: number } = {},
+  ): Promise<ElymentsGroupMetadata> {
+    const { xml } = await import("@xmpp/client");
+    const result = await this.sendIq(
+      xml("iq", { type: "get", to: roomJid }, xml("query", { xmlns: MUC_LIGHT_INFO_NS })),
+      opts,
+    );
+    return parseMucLightInfo(roomJid, result.getChild("query", MUC_LIGHT_INFO_NS));
+  }
+
+  // Fetch only a group's member list (MUC-Light affiliations query)
+  async queryGroupAffiliations(
+    roomJid: string,
+    opts: { timeoutMs?: number } = {},
+  ): Promise<{ version?: string; members: ElymentsGroupMember[] }> {
+    const { xml } = await import("@xmpp/client");
+    const result = await this.sendIq(
+      xml("iq", { type: "get", to: roomJid }, xml("query", { xmlns: MUC_LIGHT_AFFILIATIONS_NS })),
+      opts,
+    );
+    const query = result.getChild("query", MUC_LIGHT_AFFILIATIONS_NS);
+    return {
+      version: query?.getChildText("version")?.trim() || undefined,
+      members: parseMucLightUsers(query),
+    };
+  }
+
+  // Create a group owned by us with the given members (MUC-Light create)
+  async createGroup(
+    params: { name: string; members: string[]; subject?: string },
+    opts: { timeoutMs?: number } = {},
+  ): Promise<ElymentsGroupMetadata> {
+    const { xml } = await import("@xmpp/client");
+    const roomJid = formatGroupJid(crypto.randomUUID());
+    const ownJid = formatDirectJid(this.session.userId).toLowerCase();
+    const members = [...new Set(params.members.map((jid) => bareJid(jid).toLowerCase()))].filter(
+      (jid) => jid !== ownJid,
+    );
+
+    await this.sendIq(
+      xml(
+        "iq",
+        { type: "set", to: roomJid },
+        xml(
+          "query",
+          { xmlns: MUC_LIGHT_CREATE_NS },
+          xml(
+            "configuration",
+            {},
+            xml("roomname", {}, params.name),
+            ...(params.subject ? [xml("subject", {}, params.subject)] : []),
+          ),
+          xml(
+            "occupants",
+            {},
+            ...members.map((jid) => xml("user", { affiliation: "member" }, jid)),
+          ),
+        ),
+      ),
+      opts,
+    );
+
+    return {
+      jid: roomJid,
+      name: params.name,
+      subject: params.subject,
+      members: [
+        { jid: ownJid, affiliation: "owner" },
+        ...members.map((jid) => ({ jid, affiliation: "member" as const })),
+      ],
+      updatedAt: Date.now(),
+    };
+  }
+
+  // Add, remove (affiliation "none") or promote group members
+  async setGroupAffiliations(
+    roomJid: string,
+    changes: ElymentsGroupMember[],
+    opts: { timeoutMs?: number } = {},
+  ): Promise<void> {
+    const { xml } = await import("@xmpp/client");
+    await this.sendIq(
+      xml(
+        "iq",
+        { type: "set", to: roomJid },
+        xml(
+          "query",
+          { xmlns: MUC_LIGHT_AFFILIATIONS_NS },
+          ...changes.map((change) =>
+            xml("user", { affiliation: change.affiliation }, bareJid(change.jid).toLowerCase()),
+          ),
+        ),
+      ),
+      opts,
+    );
+  }
+
+  // Change a group's name and/or subject (MUC-Light configuration)
+  async setGroupConfiguration(
+    roomJid: string,
+    config: { name?: string; subject?: string },
+    opts: { timeoutMs?: number } = {},
+  ): Promise<void> {
+    const { xml } = await import("@xmpp/client");
+    const fields = [
+      ...(config.name !== undefined ? [xml("roomname", {}, config.name)] : []),
+      ...(config.subject !== undefined ? [xml("subject", {}, config.subject)] : []),
+    ];
+    if (fields.length === 0) return;
+
+    await this.sendIq(
+      xml(
+        "iq",
+        { type: "set", to: roomJid },
+        xml("query", { xmlns: MUC_LIGHT_CONFIGURATION_NS }, ...fields),
+      ),
+      opts,
+    );
+  }
+
   // Check if connected
   isConnected(): boolean {
     return this.connected;
   }
 
+  // Contacts from the roster, as last reported by the server
+  getRoster(): ElymentsRosterItem[] {
+    return Array.from(this.roster.values());
+  }
+
+  // Whether the server acknowledged XEP-0280 carbons for this connection
+  isCarbonsEnabled(): boolean {
+    return this.carbonsEnabled;
+  }
+
+  // Most recent ping round-trip time, if any pong has been received
+  getPingRttMs(): number | null {
+    return this.lastPingRttMs;
+  }
+
   // Disconnect gracefully
   async disconnect(): Promise<void> {
     this.stopPing();
+    this.rejectPendingIqs("disconnected");
     if (this.xmpp) {
       try {
         await this.xmpp.stop();
@@ -447,6 +1221,11 @@ export class ElymentsXmppClient extends EventEmitter<XmppClientEvents> {
   }
 }
 
+// Strip the resource from a JID
+export function bareJid(jid: string): string {
+  return jid.split("/")[0] || jid;
+}
+
 // Check if a JID is a group
 export function isElymentsGroup(jid: string): boolean {
   return jid.includes("@muclight.localhost");
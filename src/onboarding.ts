@@ -6,8 +6,11 @@ import type {
   ChannelOnboardingStatus,
 } from "../../../src/channels/plugins/onboarding-types.js";
 import type { RuntimeEnv } from "../../../src/runtime.js";
-import { requestOtp, verifyOtp } from "./elyments/auth.js";
+import { describeOtpFailure, requestOtp, verifyOtp, type OtpResult } from "./elyments/auth.js";
+import { formatCooldown } from "./elyments/otp-throttle.js";
+import { decodeElymentsBody, getElymentsBodyText } from "./elyments/codec.js";
 import {
+  elymentsAccountEnv,
   elymentsCredentialsExist,
   loadElymentsSession,
   saveElymentsProfile,
@@ -17,6 +20,40 @@ import type { CoreConfig } from "./types.js";
 
 const channel = "elyments" as const;
 
+// Short resend cooldowns are waited out with a countdown; longer ones are reported.
+// Aborting the wait returns the cooldown failure with the time still left.
+const MAX_OTP_COOLDOWN_WAIT_MS = 2 * 60_000;
+// The CLI login logs the remaining wait this often rather than every second
+const OTP_COUNTDOWN_LOG_INTERVAL_MS = 15_000;
+
+async function requestOtpAfterCooldown(
+  params: { countryCode: string; phoneNumber: string },
+  onCountdown: (remainingMs: number) => void,
+  env?: NodeJS.ProcessEnv,
+  signal?: AbortSignal,
+): Promise<OtpResult> {
+  for (;;) {
+    const result = await requestOtp(params, env);
+    if (result.reason !== "cooldown" || !result.retryAfterMs) return result;
+    if (result.retryAfterMs > MAX_OTP_COOLDOWN_WAIT_MS) return result;
+
+    const readyAt = Date.now() + result.retryAfterMs;
+    while (Date.now() < readyAt) {
+      if (signal?.aborted) return { ...result, retryAfterMs: readyAt - Date.now() };
+      onCountdown(readyAt - Date.now());
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve();
+        };
+        const timer = setTimeout(done, Math.min(1_000, readyAt - Date.now()));
+        signal?.addEventListener("abort", done, { once: true });
+      });
+    }
+  }
+}
+
 // Chat summary from inbox API
 type RecentChat = {
   jid: string;
@@ -76,12 +113,7 @@ async function fetchRecentChats(limit = 10): Promise<RecentChat[]> {
       const msg = content?.message as Record<string, unknown> | undefined;
       const body = msg?.body;
       if (typeof body === "string") {
-        try {
-          const parsed = JSON.parse(body) as { info?: { message?: string } };
-          lastMessage = parsed?.info?.message;
-        } catch {
-          lastMessage = body.slice(0, 50);
-        }
+        lastMessage = getElymentsBodyText(decodeElymentsBody(body)).slice(0, 50) || undefined;
       }
 
       return { jid, title, isGroup, lastMessage };
@@ -193,48 +225,72 @@ export const elymentsOnboardingAdapter: ChannelOnboardingAdapter = {
     const cc = String(countryCode || "91").trim();
     const phone = String(phoneNumber).trim();
 
-    // Request OTP
-    await prompter.note("Requesting OTP...", "Elyments");
-    const otpResult = await requestOtp({
-      countryCode: cc,
-      phoneNumber: phone,
-    });
-
-    if (!otpResult.success) {
-      await prompter.note(
-        `Failed to request OTP: ${otpResult.error || "Unknown error"}`,
-        "Elyments Error",
+    // Request OTP, showing a countdown while a recent request's cooldown runs out
+    const sendOtp = async (): Promise<boolean> => {
+      const progress = prompter.progress("Requesting OTP...");
+      const otpResult = await requestOtpAfterCooldown({ countryCode: cc, phoneNumber: phone }, (ms) =>
+        progress.update(`Resend available in ${formatCooldown(ms)}...`),
       );
+      progress.stop(otpResult.success ? "OTP sent to your phone." : "OTP request failed.");
+      if (!otpResult.success) {
+        await prompter.note(
+          `Failed to request OTP: ${describeOtpFailure(otpResult)}`,
+          "Elyments Error",
+        );
+      }
+      return otpResult.success;
+    };
+    if (!(await sendOtp())) {
       return { cfg };
     }
 
-    await prompter.note("OTP sent to your phone.", "Elyments");
-
-    // Get OTP
-    const otp = await prompter.text({
-      message: "Enter OTP",
-      placeholder: "123456",
-      validate: (value) => {
-        const raw = String(value ?? "").trim();
-        if (!raw) return "Required";
-        if (!/^\d{4,8}$/.test(raw)) return "Invalid OTP";
-        return undefined;
-      },
-    });
+    let verifyResult: Awaited<ReturnType<typeof verifyOtp>>;
+    for (;;) {
+      // Get OTP
+      const otp = await prompter.text({
+        message: "Enter OTP",
+        placeholder: "123456",
+        validate: (value) => {
+          const raw = String(value ?? "").trim();
+          if (!raw) return "Required";
+          if (!/^\d{4,8}$/.test(raw)) return "Invalid OTP";
+          return undefined;
+        },
+      });
 
-    // Verify OTP
-    await prompter.note("Verifying OTP...", "Elyments");
-    const verifyResult = await verifyOtp({
-      countryCode: cc,
-      phoneNumber: phone,
-      otp: String(otp).trim(),
-    });
+      // Verify OTP
+      await prompter.note("Verifying OTP...", "Elyments");
+      verifyResult = await verifyOtp({
+        countryCode: cc,
+        phoneNumber: phone,
+        otp: String(otp).trim(),
+      });
+      if (verifyResult.success && verifyResult.session) break;
 
-    if (!verifyResult.success || !verifyResult.session) {
       await prompter.note(
-        `OTP verification failed: ${verifyResult.error || "Unknown error"}`,
+        `OTP verification failed: ${describeOtpFailure(verifyResult)}`,
         "Elyments Error",
       );
+      if (verifyResult.reason !== "invalid-otp") {
+        return { cfg };
+      }
+
+      const retry = await prompter.select({
+        message: "What do you want to do?",
+        options: [
+          { value: "reenter", label: "Re-enter OTP" },
+          { value: "resend", label: "Send a new OTP" },
+          { value: "cancel", label: "Cancel" },
+        ],
+      }) as "reenter" | "resend" | "cancel";
+      if (retry === "cancel") {
+        return { cfg };
+      }
+      if (retry === "resend" && !(await sendOtp())) {
+        return { cfg };
+      }
+    }
+    if (!verifyResult.session) {
       return { cfg };
     }
 
@@ -440,7 +496,10 @@ async function configureElymentsSettings(
 }
 
 // Legacy function for auth.login (used by channel.ts auth adapter)
-export async function runElymentsOnboarding(runtime: RuntimeEnv): Promise<{
+export async function runElymentsOnboarding(
+  runtime: RuntimeEnv,
+  accountId?: string | null,
+): Promise<{
   success: boolean;
   message: string;
 }> {
@@ -464,9 +523,12 @@ export async function runElymentsOnboarding(runtime: RuntimeEnv): Promise<{
     });
   };
 
+  // Credentials for non-default accounts live in their own directory
+  const env = elymentsAccountEnv(accountId);
+
   // Check if already configured
-  if (elymentsCredentialsExist()) {
-    const session = loadElymentsSession();
+  if (elymentsCredentialsExist(env)) {
+    const session = loadElymentsSession(env);
     if (session) {
       const proceed = await prompt(
         `Already logged in as ${session.userId}. Reconfigure? (y/N): `,
@@ -487,36 +549,72 @@ export async function runElymentsOnboarding(runtime: RuntimeEnv): Promise<{
 
   const cc = countryCode || "91";
 
-  // Request OTP
-  runtime.log?.("\nRequesting OTP...");
-  const otpResult = await requestOtp({
-    countryCode: cc,
-    phoneNumber,
-  });
+  // Request OTP, waiting out a short resend cooldown (Enter stops waiting)
+  const sendOtp = async (): Promise<OtpResult & { cancelled?: boolean }> => {
+    runtime.log?.("\nRequesting OTP...");
+    const cancelWait = new AbortController();
+    // Only read stdin while a countdown runs; an idle reader would swallow the OTP line
+    let input: ReturnType<typeof readline.createInterface> | undefined;
+    let loggedAt = 0;
+    try {
+      const result = await requestOtpAfterCooldown({ countryCode: cc, phoneNumber }, (ms) => {
+        if (!input) {
+          input = readline.createInterface({ input: process.stdin });
+          input.once("line", () => cancelWait.abort());
+        }
+        if (Date.now() - loggedAt < OTP_COUNTDOWN_LOG_INTERVAL_MS) return;
+        loggedAt = Date.now();
+        runtime.log?.(`Resend available in ${formatCooldown(ms)} (press Enter to stop waiting)`);
+      }, env, cancelWait.signal);
+      if (result.success) runtime.log?.("\nOTP sent to your phone.\n");
+      return { ...result, cancelled: !result.success && cancelWait.signal.aborted };
+    } finally {
+      input?.close();
+    }
+  };
 
+  const otpResult = await sendOtp();
   if (!otpResult.success) {
-    return { success: false, message: otpResult.error || "Failed to request OTP" };
+    if (otpResult.cancelled) return { success: false, message: "Cancelled" };
+    return { success: false, message: describeOtpFailure(otpResult) };
   }
 
-  runtime.log?.("OTP sent to your phone.\n");
-
-  // Get OTP
-  const otp = await prompt("Enter OTP: ");
+  let verifyResult: Awaited<ReturnType<typeof verifyOtp>>;
+  for (;;) {
+    // Get OTP ("r" asks for a new one)
+    const otp = await prompt("Enter OTP (or \"r\" to resend): ");
 
-  if (!otp) {
-    return { success: false, message: "OTP is required" };
-  }
+    if (!otp) {
+      return { success: false, message: "OTP is required" };
+    }
+    if (otp.toLowerCase() === "r") {
+      const resent = await sendOtp();
+      if (resent.cancelled) {
+        runtime.log?.("Stopped waiting; enter the OTP you already received.\n");
+        continue;
+      }
+      if (!resent.success) {
+        return { success: false, message: describeOtpFailure(resent) };
+      }
+      continue;
+    }
 
-  // Verify OTP
-  runtime.log?.("\nVerifying OTP...");
-  const verifyResult = await verifyOtp({
-    countryCode: cc,
-    phoneNumber,
-    otp,
-  });
+    // Verify OTP
+    runtime.log?.("\nVerifying OTP...");
+    verifyResult = await verifyOtp({
+      countryCode: cc,
+      phoneNumber,
+      otp,
+    }, env);
+    if (verifyResult.success && verifyResult.session) break;
 
-  if (!verifyResult.success || !verifyResult.session) {
-    return { success: false, message: verifyResult.error || "OTP verification failed" };
+    if (verifyResult.reason !== "invalid-otp") {
+      return { success: false, message: describeOtpFailure(verifyResult) };
+    }
+    runtime.log?.(`${describeOtpFailure(verifyResult)} Try again.\n`);
+  }
+  if (!verifyResult.session) {
+    return { success: false, message: "OTP verification failed" };
   }
 
   runtime.log?.(`\nLogged in as ${verifyResult.session.userId}\n`);
@@ -531,7 +629,7 @@ export async function runElymentsOnboarding(runtime: RuntimeEnv): Promise<{
       senderName,
       userId: verifyResult.session.userId,
       updatedAt: Date.now(),
-    });
+    }, env);
   }
 
   return {
@@ -69,17 +69,22 @@ export const elymentsOutbound: ChannelOutboundAdapter = {
     };
   },
 
-  sendText: async ({ to, text, cfg }) => {
-    const senderName = getElymentsSenderName(cfg as CoreConfig);
-    const result = await sendMessageElyments(to, text, { senderName });
+  sendText: async ({ to, text, cfg, replyToId, accountId }) => {
+    const senderName = getElymentsSenderName(cfg as CoreConfig, accountId);
+    const result = await sendMessageElyments(to, text, {
+      senderName,
+      replyTo: replyToId ? { id: replyToId } : undefined,
+      accountId,
+    });
     return { channel: "elyments", ...result };
   },
 
-  sendMedia: async ({ to, text, mediaUrl, cfg }) => {
-    const senderName = getElymentsSenderName(cfg as CoreConfig);
+  sendMedia: async ({ to, text, mediaUrl, cfg, accountId }) => {
+    const senderName = getElymentsSenderName(cfg as CoreConfig, accountId);
     const result = await sendMessageElyments(to, text || "", {
       senderName,
       mediaUrl,
+      accountId,
     });
     return { channel: "elyments", ...result };
   },
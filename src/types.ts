@@ -69,10 +69,52 @@ export type ElymentsMediaInfo = {
   name?: string;
   size?: number;
   mimeType?: string;
+  width?: number;
+  height?: number;
   duration?: number;
   thumbnail?: string;
 };
 
+// Contact from the XMPP roster (jabber:iq:roster)
+export type ElymentsRosterItem = {
+  jid: string;
+  name?: string;
+  subscription: "none" | "to" | "from" | "both" | "remove";
+  groups: string[];
+  ask?: "subscribe";
+};
+
+// Member role in a MUC-Light group ("none" only appears in removal notifications)
+export type ElymentsGroupAffiliation = "owner" | "member" | "none";
+
+export type ElymentsGroupMember = {
+  jid: string;
+  affiliation: ElymentsGroupAffiliation;
+};
+
+// Group name, subject and members (urn:xmpp:muclight:0#info)
+export type ElymentsGroupMetadata = {
+  jid: string;
+  name?: string;
+  subject?: string;
+  members: ElymentsGroupMember[];
+  // Room version; the server bumps it on every configuration or membership change
+  version?: string;
+  updatedAt: number;
+};
+
+// Someone joined or left a group; derived from MUC-Light affiliation notifications
+export type ElymentsGroupMembershipEvent = {
+  room: string;
+  kind: "join" | "leave" | "kick";
+  memberJid: string;
+  // Member who made the change, when the server names one
+  actor?: string;
+  // The member is this account (the bot was added or removed)
+  self: boolean;
+  timestamp: number;
+};
+
 // Recipient resolution
 export type RecipientEntry = {
   jid: string;
@@ -101,8 +143,8 @@ export type ElymentsChannelConfig = {
     policy?: "open" | "allowlist" | "pairing" | "disabled";
     allowFrom?: string[];
   };
-  // Group policy configuration
-  groupPolicy?: "open" | "allowlist" | "disabled";
+  // Group policy configuration ("pairing": unknown groups request approval on first mention)
+  groupPolicy?: "open" | "allowlist" | "pairing" | "disabled";
   groups?: Record<
     string,
     {
@@ -112,12 +154,122 @@ export type ElymentsChannelConfig = {
       users?: string[];
       systemPrompt?: string;
       skills?: string[];
+      replyToMode?: ElymentsReplyToMode;
+      readReceipts?: boolean;
     }
   >;
+  // Posted when the bot is added to a group it may reply in (or the group is approved)
+  groupWelcomeMessage?: string;
+  // Quote the triggering message in bot replies (default: groups-only)
+  replyToMode?: ElymentsReplyToMode;
   // Actions configuration
   actions?: {
     reactions?: boolean;
+    // Create groups, add/remove members and rename groups (default: off)
+    groups?: boolean;
   };
+  // Reconnect supervisor configuration
+  reconnect?: ElymentsReconnectConfig;
+  // Connection liveness watchdog configuration
+  ping?: ElymentsPingConfig;
+  // Handling of replies the owner sends from their phone
+  ownerReplies?: ElymentsOwnerRepliesConfig;
+  // Missed message backfill after downtime
+  backfill?: ElymentsBackfillConfig;
+  // Media handling
+  media?: ElymentsMediaConfig;
+  // Delivery receipts and read markers
+  receipts?: ElymentsReceiptsConfig;
+  // Outbound send queue (buffering and retries)
+  sendQueue?: ElymentsSendQueueConfig;
+  // Outbound pacing to avoid the number being flagged for spam
+  rateLimit?: ElymentsRateLimitConfig;
+  // Background token refresh ahead of JWT expiry
+  tokenRefresh?: ElymentsTokenRefreshConfig;
+  // Additional numbers (each with its own login). They inherit top-level policies and
+  // limits but not its number, sender name or allowlists; the top-level login keeps running.
+  accounts?: Record<string, ElymentsAccountConfig>;
+};
+
+// Per-account overrides under channels.elyments.accounts.<id>
+export type ElymentsAccountConfig = Omit<ElymentsChannelConfig, "accounts">;
+
+// Refresh tokens leadMs before the earlier of the access/chat token expiries
+export type ElymentsTokenRefreshConfig = {
+  enabled?: boolean;
+  leadMs?: number;
+};
+
+// Token-bucket send budgets (per chat and account-wide) plus pacing between reply chunks
+export type ElymentsRateLimitConfig = {
+  enabled?: boolean;
+  perChatPerMinute?: number;
+  perChatBurst?: number;
+  globalPerMinute?: number;
+  globalBurst?: number;
+  chunkDelayMs?: number;
+  typingBetweenChunks?: boolean;
+};
+
+// Outbound queue: sends wait up to ttlMs for a connection and retry with backoff
+export type ElymentsSendQueueConfig = {
+  enabled?: boolean;
+  ttlMs?: number;
+  maxAttempts?: number;
+  maxDepth?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+// Read markers for processed messages (dm defaults on, groups off) and
+// receipt requests on outbound messages (request defaults on)
+export type ElymentsReceiptsConfig = {
+  dm?: boolean;
+  groups?: boolean;
+  request?: boolean;
+};
+
+// When bot replies quote the message that triggered them
+export type ElymentsReplyToMode = "always" | "groups-only" | "never";
+
+// Reconnect backoff configuration (maxAttempts 0 = retry forever)
+export type ElymentsReconnectConfig = {
+  enabled?: boolean;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: number;
+  stableAfterMs?: number;
+  maxAttempts?: number;
+};
+
+// Inbound media handling (maxInboundBytes defaults to 20 MB; downloads are
+// pruned after maxAgeMs, default 7 days, or past maxTotalBytes, default 500 MB)
+export type ElymentsMediaConfig = {
+  downloadInbound?: boolean;
+  maxInboundBytes?: number;
+  maxAgeMs?: number;
+  maxTotalBytes?: number;
+};
+
+// Backfill of messages missed while offline (via MAM)
+export type ElymentsBackfillConfig = {
+  enabled?: boolean;
+  maxAgeMs?: number;
+  perChatLimit?: number;
+};
+
+// Owner replies seen via message carbons (pauseAutoReplyMs 0 = never pause)
+export type ElymentsOwnerRepliesConfig = {
+  record?: boolean;
+  pauseAutoReplyMs?: number;
+};
+
+// Ping watchdog configuration (link is dropped after maxMissed unanswered pings)
+export type ElymentsPingConfig = {
+  intervalMs?: number;
+  timeoutMs?: number;
+  maxMissed?: number;
 };
 
 // Extended config type with Elyments
@@ -139,7 +291,7 @@ export type ResolvedElymentsAccount = {
   config: ElymentsChannelConfig;
   dmPolicy?: "open" | "allowlist" | "pairing" | "disabled";
   allowFrom?: string[];
-  groupPolicy?: "open" | "allowlist" | "disabled";
+  groupPolicy?: "open" | "allowlist" | "pairing" | "disabled";
   groups?: ElymentsChannelConfig["groups"];
 };
 
@@ -153,6 +305,22 @@ export type ElymentsRuntimeStatus = {
   lastError: string | null;
   lastInboundAt?: number | null;
   lastOutboundAt?: number | null;
+  deliveredCount?: number;
+  failedCount?: number;
+  queueDepth?: number;
+  rateLimitHits?: number;
+  lastRateLimitedAt?: number | null;
+  lastTokenRefreshAt?: number | null;
+  tokenExpiresAt?: number | null;
+  reloginRequired?: boolean;
+  lastConnectedAt?: number | null;
+  lastDisconnectAt?: number | null;
+  lastDisconnectReason?: string | null;
+  reconnectAttempts?: number;
+  lastReconnectAt?: number | null;
+  lastPingRttMs?: number | null;
+  lastPongAt?: number | null;
+  missedPings?: number;
 };
 
 // Elyments API endpoints